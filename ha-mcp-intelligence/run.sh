@@ -4,6 +4,28 @@
 LOG_LEVEL=$(bashio::config 'log_level')
 CACHE_TTL=$(bashio::config 'cache_ttl_seconds')
 AUTH_REQUIRED=$(bashio::config 'auth_required')
+AUTH_TOKENS=$(bashio::config 'auth_tokens' | tr '\n' ',')
+AUTH_HOME_ASSISTANT=$(bashio::config 'auth_home_assistant')
+AUTH_ADMIN_ONLY=$(bashio::config 'auth_admin_only')
+MODEL_PROVIDER=$(bashio::config 'model_provider')
+MODEL_ID=$(bashio::config 'model_id')
+OPENROUTER_API_KEY=$(bashio::config 'openrouter_api_key')
+ANTHROPIC_API_KEY=$(bashio::config 'anthropic_api_key')
+OPENAI_API_KEY=$(bashio::config 'openai_api_key')
+OPENAI_BASE_URL=$(bashio::config 'openai_base_url')
+OLLAMA_URL=$(bashio::config 'ollama_url')
+RESUME_INTERRUPTED=$(bashio::config 'resume_interrupted')
+CONFIRMATION_TIMEOUT=$(bashio::config 'confirmation_timeout_seconds')
+CONCURRENCY_MODE=$(bashio::config 'concurrency_mode')
+SESSION_IDLE_DAYS=$(bashio::config 'session_idle_days')
+CONTINUATION_RETENTION_HOURS=$(bashio::config 'continuation_retention_hours')
+ARTIFACT_RETENTION_DAYS=$(bashio::config 'artifact_retention_days')
+HOUSEKEEPING_INTERVAL=$(bashio::config 'housekeeping_interval_minutes')
+STORAGE_BACKEND=$(bashio::config 'storage_backend')
+ACTUATION=$(bashio::config 'actuation')
+ACTUATION_ALLOWLIST=$(bashio::config 'actuation_allowlist' | tr '\n' ',')
+ACTUATION_DENYLIST=$(bashio::config 'actuation_denylist' | tr '\n' ',')
+ACTUATION_REQUIRE_CONFIRMATION=$(bashio::config 'actuation_require_confirmation')
 
 # Get Supervisor token
 SUPERVISOR_TOKEN=$(bashio::supervisor.token)
@@ -12,7 +34,29 @@ SUPERVISOR_TOKEN=$(bashio::supervisor.token)
 export LOG_LEVEL="${LOG_LEVEL}"
 export CACHE_TTL_SECONDS="${CACHE_TTL}"
 export AUTH_REQUIRED="${AUTH_REQUIRED}"
+export AUTH_TOKENS="${AUTH_TOKENS}"
+export AUTH_HOME_ASSISTANT="${AUTH_HOME_ASSISTANT}"
+export AUTH_ADMIN_ONLY="${AUTH_ADMIN_ONLY}"
 export SUPERVISOR_TOKEN="${SUPERVISOR_TOKEN}"
+export MODEL_PROVIDER="${MODEL_PROVIDER}"
+export MODEL_ID="${MODEL_ID}"
+export OPENROUTER_API_KEY="${OPENROUTER_API_KEY}"
+export ANTHROPIC_API_KEY="${ANTHROPIC_API_KEY}"
+export OPENAI_API_KEY="${OPENAI_API_KEY}"
+export OPENAI_BASE_URL="${OPENAI_BASE_URL}"
+export OLLAMA_URL="${OLLAMA_URL}"
+export RESUME_INTERRUPTED="${RESUME_INTERRUPTED}"
+export CONFIRMATION_TIMEOUT_SECONDS="${CONFIRMATION_TIMEOUT}"
+export CONCURRENCY_MODE="${CONCURRENCY_MODE}"
+export SESSION_IDLE_DAYS="${SESSION_IDLE_DAYS}"
+export CONTINUATION_RETENTION_HOURS="${CONTINUATION_RETENTION_HOURS}"
+export ARTIFACT_RETENTION_DAYS="${ARTIFACT_RETENTION_DAYS}"
+export HOUSEKEEPING_INTERVAL_MINUTES="${HOUSEKEEPING_INTERVAL}"
+export STORAGE_BACKEND="${STORAGE_BACKEND}"
+export ACTUATION="${ACTUATION}"
+export ACTUATION_ALLOWLIST="${ACTUATION_ALLOWLIST}"
+export ACTUATION_DENYLIST="${ACTUATION_DENYLIST}"
+export ACTUATION_REQUIRE_CONFIRMATION="${ACTUATION_REQUIRE_CONFIRMATION}"
 
 bashio::log.info "Starting Home Assistant MCP Intelligence Server..."
 bashio::log.info "Log level: ${LOG_LEVEL}"
@@ -1,16 +1,48 @@
 /**
  * ArtifactStore - Storage for large results, plots, logs, and other artifacts
+ *
+ * Each artifact {id} has a metadata sidecar {id}.meta.json recording its type,
+ * MIME type, owner, tags and checksum. Sidecars are loaded into an in-memory
+ * index at init; artifacts written before sidecars existed get one backfilled.
  */
 
-import { writeFile, readFile, unlink, readdir, stat } from 'fs/promises';
+import { createHash } from 'crypto';
+import { readFile, unlink, readdir, stat } from 'fs/promises';
 import { mkdir } from 'fs/promises';
 import { join } from 'path';
 import { ulid } from './ulid.js';
-import type { ArtifactRef, ArtifactStore as IArtifactStore } from './types.js';
+import { writeFileAtomic } from './atomic-file.js';
+import type {
+  ArtifactFilters,
+  ArtifactRef,
+  ArtifactStore as IArtifactStore,
+  ArtifactWriteOptions,
+} from './types.js';
+
+const META_SUFFIX = '.meta.json';
+
+const DEFAULT_MIME_TYPES: Record<ArtifactRef['type'], string> = {
+  json: 'application/json',
+  text: 'text/plain',
+  image: 'application/octet-stream',
+  plot: 'text/plain',
+  log: 'text/plain',
+};
+
+export interface ArtifactOrphans {
+  detached: ArtifactRef[]; // Owning session no longer exists
+  missingContent: string[]; // Sidecar without its artifact file
+  untracked: string[]; // Artifact file without a sidecar
+}
+
+function checksum(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
 
 export class ArtifactStore implements IArtifactStore {
   private basePath: string;
   private maxSizeMB: number;
+  private index = new Map<string, ArtifactRef>();
 
   constructor(basePath: string, maxSizeMB = 100) {
     this.basePath = basePath;
@@ -18,10 +50,11 @@ export class ArtifactStore implements IArtifactStore {
   }
 
   /**
-   * Initialize the artifact store
+   * Initialize the artifact store and load the metadata index
    */
   async init(): Promise<void> {
     await mkdir(this.basePath, { recursive: true });
+    await this.loadIndex();
   }
 
   /**
@@ -30,7 +63,8 @@ export class ArtifactStore implements IArtifactStore {
   async write(
     type: string,
     content: Buffer | string,
-    metadata?: Record<string, unknown>
+    metadata?: Record<string, unknown>,
+    options: ArtifactWriteOptions = {}
   ): Promise<ArtifactRef> {
     const id = ulid();
     const buffer = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
@@ -44,17 +78,25 @@ export class ArtifactStore implements IArtifactStore {
     }
 
     const path = join(this.basePath, id);
-    await writeFile(path, buffer);
+    await writeFileAtomic(path, buffer);
 
     const ref: ArtifactRef = {
       id,
       type: type as ArtifactRef['type'],
+      mimeType: options.mimeType ?? DEFAULT_MIME_TYPES[type as ArtifactRef['type']] ?? 'application/octet-stream',
       path,
       sizeBytes: buffer.length,
       createdAt: Date.now(),
+      sessionId: options.sessionId,
+      continuationId: options.continuationId,
+      tags: options.tags ?? [],
+      checksum: checksum(buffer),
       metadata,
     };
 
+    await this.writeSidecar(ref);
+    this.index.set(id, ref);
+
     return ref;
   }
 
@@ -75,62 +117,100 @@ export class ArtifactStore implements IArtifactStore {
   }
 
   /**
-   * Delete an artifact
+   * Get an artifact's metadata
+   */
+  get(id: string): ArtifactRef | undefined {
+    return this.index.get(id);
+  }
+
+  /**
+   * Delete an artifact and its sidecar
    */
   async delete(id: string): Promise<void> {
-    const path = join(this.basePath, id);
+    this.index.delete(id);
 
-    try {
-      await unlink(path);
-    } catch (err) {
-      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+    for (const path of [join(this.basePath, id), this.sidecarPath(id)]) {
+      try {
+        await unlink(path);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw err;
+        }
         // Already deleted, not an error
-        return;
       }
-      throw err;
     }
   }
 
   /**
-   * List artifacts with optional filters
+   * List artifacts with optional filters, oldest first
    */
-  async list(filters?: Record<string, unknown>): Promise<ArtifactRef[]> {
-    const files = await readdir(this.basePath);
-    const refs: ArtifactRef[] = [];
+  async list(filters?: ArtifactFilters): Promise<ArtifactRef[]> {
+    const refs = Array.from(this.index.values()).sort((a, b) => a.createdAt - b.createdAt || (a.id < b.id ? -1 : 1));
 
-    for (const file of files) {
-      const path = join(this.basePath, file);
-      const stats = await stat(path);
-
-      // Basic ref (no metadata filtering yet)
-      const ref: ArtifactRef = {
-        id: file,
-        type: 'text', // Would need metadata file to track type
-        path,
-        sizeBytes: stats.size,
-        createdAt: stats.ctimeMs,
-      };
-
-      refs.push(ref);
+    if (!filters) {
+      return refs;
     }
 
-    // Apply filters if provided
-    if (filters) {
-      return refs.filter((ref) => {
-        if (filters.type && ref.type !== filters.type) {
-          return false;
-        }
-        if (filters.minSize && ref.sizeBytes < (filters.minSize as number)) {
-          return false;
-        }
-        if (filters.maxSize && ref.sizeBytes > (filters.maxSize as number)) {
-          return false;
+    return refs.filter((ref) => {
+      if (filters.type && ref.type !== filters.type) {
+        return false;
+      }
+      if (filters.mimeType && ref.mimeType !== filters.mimeType) {
+        return false;
+      }
+      if (filters.sessionId && ref.sessionId !== filters.sessionId) {
+        return false;
+      }
+      if (filters.continuationId && ref.continuationId !== filters.continuationId) {
+        return false;
+      }
+      if (filters.tags && !filters.tags.every((tag) => ref.tags?.includes(tag))) {
+        return false;
+      }
+      if (filters.createdAfter !== undefined && ref.createdAt < filters.createdAfter) {
+        return false;
+      }
+      if (filters.createdBefore !== undefined && ref.createdAt >= filters.createdBefore) {
+        return false;
+      }
+      if (filters.minSize !== undefined && ref.sizeBytes < filters.minSize) {
+        return false;
+      }
+      if (filters.maxSize !== undefined && ref.sizeBytes > filters.maxSize) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Find artifacts whose owning session is gone, and files and sidecars without a counterpart
+   */
+  async findOrphans(liveSessionIds: Set<string>): Promise<ArtifactOrphans> {
+    const files = new Set(await readdir(this.basePath));
+    const orphans: ArtifactOrphans = { detached: [], missingContent: [], untracked: [] };
+
+    for (const file of files) {
+      if (file.startsWith('.')) {
+        continue; // Temp file of an interrupted write
+      }
+      if (file.endsWith(META_SUFFIX)) {
+        const id = file.slice(0, -META_SUFFIX.length);
+        if (!files.has(id)) {
+          orphans.missingContent.push(id);
         }
-        return true;
-      });
+      } else if (!files.has(`${file}${META_SUFFIX}`)) {
+        orphans.untracked.push(file);
+      }
+    }
+
+    for (const ref of this.index.values()) {
+      if (ref.sessionId && !liveSessionIds.has(ref.sessionId)) {
+        orphans.detached.push(ref);
+      }
     }
 
-    return refs;
+    return orphans;
   }
 
   /**
@@ -151,16 +231,65 @@ export class ArtifactStore implements IArtifactStore {
    */
   async cleanup(olderThanDays: number): Promise<number> {
     const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
-    const refs = await this.list();
+    const refs = await this.list({ createdBefore: cutoff });
 
-    let deleted = 0;
     for (const ref of refs) {
-      if (ref.createdAt < cutoff) {
-        await this.delete(ref.id);
-        deleted++;
-      }
+      await this.delete(ref.id);
     }
 
-    return deleted;
+    return refs.length;
+  }
+
+  private sidecarPath(id: string): string {
+    return join(this.basePath, `${id}${META_SUFFIX}`);
+  }
+
+  private async writeSidecar(ref: ArtifactRef): Promise<void> {
+    const { path: _path, ...meta } = ref;
+    await writeFileAtomic(this.sidecarPath(ref.id), JSON.stringify(meta, null, 2));
+  }
+
+  /**
+   * Load sidecars, backfilling one for each artifact that has none
+   */
+  private async loadIndex(): Promise<void> {
+    this.index.clear();
+    const files = new Set(await readdir(this.basePath));
+
+    for (const file of files) {
+      if (file.endsWith(META_SUFFIX) || file.startsWith('.')) {
+        continue;
+      }
+
+      const path = join(this.basePath, file);
+      try {
+        if (files.has(`${file}${META_SUFFIX}`)) {
+          const meta = JSON.parse(await readFile(this.sidecarPath(file), 'utf8')) as Omit<ArtifactRef, 'path'>;
+          this.index.set(file, { ...meta, id: file, path });
+          continue;
+        }
+
+        const stats = await stat(path);
+        if (!stats.isFile()) {
+          continue;
+        }
+
+        // Written before sidecars existed: type unknown, mtime as the creation time
+        const ref: ArtifactRef = {
+          id: file,
+          type: 'text',
+          mimeType: 'application/octet-stream',
+          path,
+          sizeBytes: stats.size,
+          createdAt: stats.mtimeMs,
+          tags: [],
+          checksum: checksum(await readFile(path)),
+        };
+        await this.writeSidecar(ref);
+        this.index.set(file, ref);
+      } catch (err) {
+        console.error(`Failed to index artifact ${file}:`, err);
+      }
+    }
   }
 }
@@ -0,0 +1,65 @@
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { backupPath, parseRecord, serializeRecord, writeFileAtomic } from './atomic-file.js';
+
+describe('writeFileAtomic', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ha-agent-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('replaces the file without leaving temp files behind', async () => {
+    const file = join(dir, 'record.json');
+    await writeFile(file, 'old');
+
+    await writeFileAtomic(file, 'new');
+
+    expect(await readFile(file, 'utf8')).toBe('new');
+    expect(await readdir(dir)).toEqual(['record.json']);
+  });
+
+  it('keeps the requested number of previous generations', async () => {
+    const file = join(dir, 'record.json');
+    for (const content of ['one', 'two', 'three', 'four']) {
+      await writeFileAtomic(file, content, { backups: 2 });
+    }
+
+    expect(await readFile(file, 'utf8')).toBe('four');
+    expect(await readFile(backupPath(file, 1), 'utf8')).toBe('three');
+    expect(await readFile(backupPath(file, 2), 'utf8')).toBe('two');
+    expect((await readdir(dir)).sort()).toEqual(['record.json', 'record.json.bak.1', 'record.json.bak.2']);
+  });
+});
+
+describe('checksummed records', () => {
+  it('round-trips data with its schema version', () => {
+    const content = serializeRecord({ id: 's1', facts: [] }, 2);
+
+    expect(parseRecord(content, 'session.json')).toEqual({ data: { id: 's1', facts: [] }, schemaVersion: 2 });
+  });
+
+  it('accepts plain JSON written before records were checksummed', () => {
+    expect(parseRecord('{"id":"s1"}', 'session.json')).toEqual({ data: { id: 's1' }, schemaVersion: 0 });
+  });
+
+  it('rejects a record whose data does not match its checksum', () => {
+    const tampered = JSON.parse(serializeRecord({ id: 's1' }, 2));
+    tampered.data.id = 's2';
+
+    expect(() => parseRecord(JSON.stringify(tampered), 'session.json')).toThrow(
+      expect.objectContaining({ code: 'CORRUPT_FILE', message: 'session.json failed its checksum' })
+    );
+  });
+
+  it('rejects truncated JSON', () => {
+    expect(() => parseRecord('{"checksum": "ab', 'session.json')).toThrow(
+      expect.objectContaining({ code: 'CORRUPT_FILE' })
+    );
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Crash-safe file writes and checksummed JSON records
+ *
+ * writeFileAtomic() writes to a temp file next to the target, fsyncs it and
+ * renames it over the target, so a power loss leaves either the old or the new
+ * content, never a truncated file. Records are stored as {schemaVersion, checksum, data}
+ * so corruption that slips through (e.g. SD card faults) is detected on read.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { copyFile, link, open, rename, rm, unlink } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { AgentError } from './errors.js';
+
+export interface AtomicWriteOptions {
+  mode?: number;
+  backups?: number; // Keep this many previous generations as {path}.bak.1 (newest) .. .bak.N
+}
+
+interface RecordEnvelope {
+  schemaVersion?: number; // Absent in records written before schema versioning
+  checksum: string; // SHA-256 of JSON.stringify(data)
+  data: unknown;
+}
+
+export interface ParsedRecord<T> {
+  data: T;
+  schemaVersion: number; // 0 for records without one
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+export function backupPath(path: string, generation: number): string {
+  return `${path}.bak.${generation}`;
+}
+
+/**
+ * Write a file so that readers (and a restart after power loss) see either the old or the new content
+ */
+export async function writeFileAtomic(
+  path: string,
+  data: string | Buffer,
+  options: AtomicWriteOptions = {}
+): Promise<void> {
+  const dir = dirname(path);
+  const tmp = join(dir, `.${basename(path)}.${randomBytes(6).toString('hex')}.tmp`);
+
+  const handle = await open(tmp, 'w', options.mode ?? 0o644);
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    if (options.backups) {
+      await rotateBackups(path, options.backups);
+    }
+    await rename(tmp, path);
+  } catch (err) {
+    await unlink(tmp).catch(() => undefined);
+    throw err;
+  }
+
+  await syncDirectory(dir);
+}
+
+/**
+ * Shift .bak.1..N-1 up one generation and make the current file .bak.1
+ * The current file is linked (or copied), not moved, so the target always exists.
+ */
+async function rotateBackups(path: string, generations: number): Promise<void> {
+  for (let generation = generations - 1; generation >= 1; generation--) {
+    await rename(backupPath(path, generation), backupPath(path, generation + 1)).catch(ignoreMissing);
+  }
+
+  const newest = backupPath(path, 1);
+  await rm(newest, { force: true });
+  try {
+    await link(path, newest);
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT') {
+      return; // First write
+    }
+    // Filesystems without hard links
+    await copyFile(path, newest).catch(ignoreMissing);
+  }
+}
+
+function ignoreMissing(err: NodeJS.ErrnoException): void {
+  if (err.code !== 'ENOENT') {
+    throw err;
+  }
+}
+
+/**
+ * Persist the rename itself; not supported everywhere, so failures are ignored
+ */
+async function syncDirectory(dir: string): Promise<void> {
+  try {
+    const handle = await open(dir, 'r');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // Best effort
+  }
+}
+
+/**
+ * Serialize data with a checksum of its content and the schema version it follows
+ */
+export function serializeRecord(data: unknown, schemaVersion?: number): string {
+  const envelope: RecordEnvelope = { schemaVersion, checksum: sha256(JSON.stringify(data)), data };
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * Parse and verify a record written by serializeRecord()
+ * Plain JSON written before records were checksummed is accepted as is.
+ * Throws CORRUPT_FILE if the content is not valid JSON or fails its checksum.
+ */
+export function parseRecord<T>(content: string, path: string): ParsedRecord<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    throw new AgentError('CORRUPT_FILE', `${path} is not valid JSON: ${(err as Error).message}`, {
+      details: { path },
+    });
+  }
+
+  const envelope = parsed as Partial<RecordEnvelope> | null;
+  if (!envelope || typeof envelope.checksum !== 'string' || !('data' in envelope)) {
+    return { data: parsed as T, schemaVersion: 0 };
+  }
+
+  if (sha256(JSON.stringify(envelope.data)) !== envelope.checksum) {
+    throw new AgentError('CORRUPT_FILE', `${path} failed its checksum`, { details: { path } });
+  }
+
+  return { data: envelope.data as T, schemaVersion: envelope.schemaVersion ?? 0 };
+}
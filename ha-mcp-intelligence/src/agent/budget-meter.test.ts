@@ -0,0 +1,156 @@
+import { resolveBudgets } from './budget-meter.js';
+import { answer, createAgentHarness, toolCall } from '../testing/agent-harness.js';
+import type { AgentHarness } from '../testing/agent-harness.js';
+import { DEFAULTS } from './types.js';
+
+describe('resolveBudgets', () => {
+  it('merges overrides over the defaults', () => {
+    expect(resolveBudgets(DEFAULTS.budgets, { maxSteps: 5 })).toEqual({ ...DEFAULTS.budgets, maxSteps: 5 });
+    expect(resolveBudgets(DEFAULTS.budgets)).toEqual(DEFAULTS.budgets);
+  });
+
+  it.each([
+    [{ maxSteps: 0 }],
+    [{ maxDurationMs: -1 }],
+    [{ maxToolCalls: Number.NaN }],
+    [{ maxTokensPerTurn: '1000' as unknown as number }],
+    [{ maxStep: 5 } as never],
+  ])('rejects %j', (overrides) => {
+    expect(() => resolveBudgets(DEFAULTS.budgets, overrides)).toThrow(
+      expect.objectContaining({ code: 'INVALID_BUDGETS' })
+    );
+  });
+});
+
+describe('Session budgets', () => {
+  let harness: AgentHarness;
+
+  beforeEach(async () => {
+    harness = await createAgentHarness();
+    harness.tools.register({
+      name: 'get_state',
+      description: 'Read an entity state',
+      inputSchema: { type: 'object' },
+      outputSchema: { type: 'object' },
+      invoke: async () => ({ state: 'on' }),
+    });
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  async function send(budgets: Record<string, number>) {
+    const { session_id } = await harness.agentTools.startSession({ budgets });
+    const { continuation_id } = await harness.agentTools.sendMessage({ session_id, message: 'How is the porch?' });
+    await harness.agentTools.awaitContinuation({ session_id, continuation_id, timeout_ms: 5000 });
+    return (await harness.runner.getContinuation(session_id, continuation_id))!;
+  }
+
+  it('keeps the default time and tool call limits when only maxSteps is set', async () => {
+    harness.provider.script(toolCall('a', 'get_state'), answer('Fine.'));
+
+    const continuation = await send({ maxSteps: 5 });
+
+    expect(continuation.status).toBe('completed');
+    expect(harness.sessions.getSession(continuation.sessionId)?.budgets).toEqual({ ...DEFAULTS.budgets, maxSteps: 5 });
+  });
+
+  it('enforces a partial tool call budget', async () => {
+    const calls = ['a', 'b'].map((id) => ({ id, name: 'get_state', arguments: {} }));
+    harness.provider.script({ content: '', toolCalls: calls }, answer('Fine.'));
+
+    const continuation = await send({ maxToolCalls: 1 });
+
+    expect(continuation.usage?.toolCalls).toBe(1);
+    const observations = harness.provider.requests[1].messages.filter((m) => m.role === 'tool').map((m) => m.content);
+    expect(JSON.parse(observations[1])).toEqual({ error: 'Tool call budget of 1 exhausted' });
+    expect(harness.provider.requests[1].tools).toBeUndefined();
+  });
+
+  it('enforces a partial token budget', async () => {
+    harness.provider.script({ ...toolCall('a', 'get_state'), usage: { promptTokens: 900, completionTokens: 200 } });
+
+    const continuation = await send({ maxTokensPerTurn: 1000 });
+
+    expect(continuation.status).toBe('failed');
+    expect(continuation.error).toMatchObject({ code: 'BUDGET_EXCEEDED', details: { budget: 'tokens' } });
+  });
+
+  it('keeps a final answer that goes over the token budget', async () => {
+    harness.provider.script({ ...answer('Fine.'), usage: { promptTokens: 900, completionTokens: 200 } });
+
+    const continuation = await send({ maxTokensPerTurn: 1000 });
+
+    expect(continuation.status).toBe('completed');
+    expect(continuation.response?.finalMessage).toBe('Fine.');
+    expect(continuation.usage?.tokens).toBe(1100);
+  });
+
+  it('leaves time spent awaiting confirmation out of the wall time', async () => {
+    harness.tools.register({
+      name: 'unlock_door',
+      description: 'Unlock a door',
+      inputSchema: { type: 'object' },
+      outputSchema: { type: 'object' },
+      safety: { requiresActuation: true, riskLevel: 'high' },
+      invoke: async () => ({ unlocked: true }),
+    });
+    harness.provider.script(toolCall('a', 'unlock_door'), answer('Unlocked.'));
+
+    const { session_id } = await harness.agentTools.startSession({
+      policy: { ...DEFAULTS.policy, allowActuation: true },
+    });
+    const { continuation_id } = await harness.agentTools.sendMessage({ session_id, message: 'Unlock the door' });
+    await harness.agentTools.awaitContinuation({ session_id, continuation_id, timeout_ms: 5000 });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    await harness.agentTools.approve({ continuation_id });
+    const done = await harness.agentTools.awaitContinuation({ session_id, continuation_id, timeout_ms: 5000 });
+
+    expect(done.status).toBe('completed');
+    expect((await harness.runner.getContinuation(session_id, continuation_id))?.usage?.wallTimeMs).toBeLessThan(300);
+  });
+
+  it('charges only the logged wall time when resuming after a confirmation wait', async () => {
+    harness.provider.script(answer('Unlocked.'));
+    const session = await harness.sessions.createSession();
+    const continuation = await harness.runner.createContinuation(session, {
+      message: 'Unlock the door',
+      allowTools: true,
+      maxSteps: 5,
+      timeBudgetMs: 1000,
+    });
+
+    // Interrupted after a minute-long confirmation wait, with 600 ms of wall time used
+    const start = Date.now() - 120_000;
+    const call = { id: 'a', tool: 'get_state', args: {} };
+    continuation.stepLog = [
+      { ts: start, type: 'plan', detail: { step: 1, thought: 'unlocking', toolCalls: [call] }, wallTimeMs: 100 },
+      { ts: start + 1, type: 'plan', detail: { callId: 'a', phase: 'awaiting_confirmation' }, wallTimeMs: 100 },
+      { ts: start + 60_000, type: 'plan', detail: { callId: 'a', phase: 'action_approved' }, wallTimeMs: 100 },
+      { ts: start + 60_500, type: 'tool_result', detail: { callId: 'a', result: { state: 'on' } }, wallTimeMs: 600 },
+    ];
+    continuation.status = 'interrupted';
+
+    await harness.runner.resume(session, continuation);
+
+    expect(continuation.status).toBe('completed');
+    expect(continuation.usage?.wallTimeMs).toBeGreaterThanOrEqual(600);
+    expect(continuation.usage?.wallTimeMs).toBeLessThan(1000);
+    expect(continuation.stepLog.at(-1)?.wallTimeMs).toBeGreaterThanOrEqual(600);
+  });
+
+  it('rejects invalid budgets when the session is started', async () => {
+    await expect(harness.agentTools.startSession({ budgets: { maxDurationMs: 0 } })).rejects.toMatchObject({
+      code: 'INVALID_BUDGETS',
+    });
+  });
+
+  it('rejects per-message limits that are not positive', async () => {
+    const { session_id } = await harness.agentTools.startSession({});
+
+    await expect(harness.agentTools.sendMessage({ session_id, message: 'hi', max_steps: 0 })).rejects.toThrow(
+      'max_steps must be a positive integer'
+    );
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * BudgetMeter - Counts a continuation's usage and enforces the session budgets
+ *
+ * Steps, tool calls, tokens and wall time are accumulated in the continuation's
+ * usage record. When a budget is exceeded the meter aborts the continuation's
+ * AbortController with a BUDGET_EXCEEDED error, so in-flight model and tool calls
+ * stop as well.
+ */
+
+import { AgentError } from './errors.js';
+import type { Budgets, ContinuationUsage, ModelUsage } from './types.js';
+
+export type BudgetName = 'steps' | 'toolCalls' | 'tokens' | 'duration';
+
+export interface BudgetMeterConfig {
+  budgets: Budgets;
+  maxSteps: number; // Per-request step limit (request.maxSteps)
+  timeBudgetMs: number; // Remaining duration budget (less than maxDurationMs when resuming)
+  usage: ContinuationUsage; // Updated in place
+  abortController: AbortController;
+}
+
+/**
+ * One-shot timer that can be paused (the time budget does not run while waiting on the user)
+ */
+class PausableTimer {
+  private timer?: NodeJS.Timeout;
+  private startedAt = 0;
+  private remainingMs: number;
+  private onExpire: () => void;
+
+  constructor(ms: number, onExpire: () => void) {
+    this.remainingMs = ms;
+    this.onExpire = onExpire;
+    this.resume();
+  }
+
+  pause(): void {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.remainingMs -= Date.now() - this.startedAt;
+  }
+
+  resume(): void {
+    if (this.timer) return;
+    this.startedAt = Date.now();
+    this.timer = setTimeout(this.onExpire, Math.max(0, this.remainingMs));
+  }
+
+  clear(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+}
+
+export function emptyUsage(): ContinuationUsage {
+  return { steps: 0, toolCalls: 0, tokens: 0, wallTimeMs: 0 };
+}
+
+/**
+ * Apply per-session budget overrides to the defaults
+ * Throws INVALID_BUDGETS for unknown budgets or limits that are not positive numbers.
+ */
+export function resolveBudgets(defaults: Budgets, overrides: Partial<Budgets> = {}): Budgets {
+  const budgets: Budgets = { ...defaults };
+
+  for (const [name, value] of Object.entries(overrides)) {
+    if (!(name in defaults)) {
+      throw new AgentError('INVALID_BUDGETS', `Unknown budget ${name} (expected ${Object.keys(defaults).join(', ')})`);
+    }
+    if (value !== undefined) {
+      budgets[name as keyof Budgets] = value;
+    }
+  }
+
+  for (const [name, value] of Object.entries(budgets)) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new AgentError('INVALID_BUDGETS', `Budget ${name} must be a positive number (got ${JSON.stringify(value)})`);
+    }
+  }
+
+  return budgets;
+}
+
+export class BudgetMeter {
+  readonly usage: ContinuationUsage;
+  private limits: Record<BudgetName, number>;
+  private abortController: AbortController;
+  private timer: PausableTimer;
+  private startedAt = Date.now();
+  private pausedAt: number | null = null;
+  private pausedMs = 0;
+  private stopped = false;
+
+  constructor(config: BudgetMeterConfig) {
+    this.usage = config.usage;
+    this.abortController = config.abortController;
+    this.limits = {
+      steps: Math.min(config.maxSteps, config.budgets.maxSteps),
+      toolCalls: config.budgets.maxToolCalls,
+      tokens: config.budgets.maxTokensPerTurn,
+      duration: Math.min(config.timeBudgetMs, config.budgets.maxDurationMs),
+    };
+    this.timer = new PausableTimer(this.limits.duration, () => {
+      this.abort('duration', this.limits.duration, this.elapsed());
+    });
+  }
+
+  limit(budget: BudgetName): number {
+    return this.limits[budget];
+  }
+
+  /**
+   * Continue counting from steps and tool calls replayed from the step log
+   */
+  restore(steps: number, toolCalls: number): void {
+    this.usage.steps = steps;
+    this.usage.toolCalls = toolCalls;
+  }
+
+  /**
+   * Count a model call; throws once the step or token budget is exceeded
+   * Uses the provider's reported usage, or the given estimate if it reports none. The
+   * final answer is only counted: it has been paid for, so discarding it would waste it.
+   */
+  recordStep(usage: ModelUsage | undefined, estimatedTokens: number, final = false): void {
+    this.usage.steps++;
+    this.usage.tokens += usage ? usage.promptTokens + usage.completionTokens : estimatedTokens;
+
+    if (final) {
+      return;
+    }
+
+    if (this.usage.steps > this.limits.steps) {
+      this.exceed('steps', this.limits.steps, this.usage.steps);
+    }
+    if (this.usage.tokens > this.limits.tokens) {
+      this.exceed('tokens', this.limits.tokens, this.usage.tokens);
+    }
+  }
+
+  /**
+   * Count a tool invocation; throws once the tool call budget is exceeded
+   */
+  recordToolCall(): void {
+    this.usage.toolCalls++;
+
+    if (this.usage.toolCalls > this.limits.toolCalls) {
+      this.exceed('toolCalls', this.limits.toolCalls, this.usage.toolCalls);
+    }
+  }
+
+  /**
+   * Stop the duration budget while waiting on the user
+   */
+  pause(): void {
+    if (this.pausedAt !== null) return;
+    this.pausedAt = Date.now();
+    this.timer.pause();
+  }
+
+  resume(): void {
+    if (this.pausedAt === null) return;
+    this.pausedMs += Date.now() - this.pausedAt;
+    this.pausedAt = null;
+    this.timer.resume();
+  }
+
+  /**
+   * Wall time used so far across runs, less time spent paused
+   */
+  wallTime(): number {
+    return this.usage.wallTimeMs + (this.stopped ? 0 : this.elapsed());
+  }
+
+  /**
+   * Stop timing and add the elapsed wall time, less time spent paused, to the usage record
+   */
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.timer.clear();
+    this.usage.wallTimeMs += this.elapsed();
+  }
+
+  private elapsed(): number {
+    const now = Date.now();
+    const paused = this.pausedMs + (this.pausedAt !== null ? now - this.pausedAt : 0);
+    return now - this.startedAt - paused;
+  }
+
+  private exceed(budget: BudgetName, limit: number, used: number): never {
+    throw this.abort(budget, limit, used);
+  }
+
+  private abort(budget: BudgetName, limit: number, used: number): AgentError {
+    const error = new AgentError('BUDGET_EXCEEDED', `${budget} budget of ${limit} exceeded (used ${used})`, {
+      recoverable: true,
+      details: { budget, limit, used },
+    });
+
+    if (!this.abortController.signal.aborted) {
+      this.abortController.abort(error);
+    }
+    return error;
+  }
+}
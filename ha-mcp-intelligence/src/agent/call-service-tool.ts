@@ -0,0 +1,138 @@
+/**
+ * call_service - Agent tool that calls Home Assistant services
+ */
+
+import { checkServicePolicy } from './service-policy.js';
+import type { RiskLevel, ToolSpec } from './types.js';
+import type { HAServiceTarget } from '../server/supervisor-client.js';
+
+interface CallServiceArgs {
+  service: string;
+  target?: HAServiceTarget;
+  data?: Record<string, unknown>;
+}
+
+const SERVICE_PATTERN = /^[a-z0-9_]+\.[a-z0-9_]+$/;
+
+// Domains whose services affect security, the whole system or run arbitrary code
+const HIGH_RISK_DOMAINS = new Set([
+  'lock',
+  'alarm_control_panel',
+  'homeassistant',
+  'hassio',
+  'recorder',
+  'shell_command',
+  'python_script',
+  'rest_command',
+]);
+
+// Domains whose services only touch helpers, lighting and notifications
+const LOW_RISK_DOMAINS = new Set([
+  'light',
+  'input_boolean',
+  'input_button',
+  'input_datetime',
+  'input_number',
+  'input_select',
+  'input_text',
+  'notify',
+  'persistent_notification',
+]);
+
+function parseArgs(args: unknown): CallServiceArgs {
+  if (!args || typeof args !== 'object') {
+    throw new Error('service is required');
+  }
+
+  const { service, target, data } = args as Record<string, unknown>;
+  if (typeof service !== 'string' || !SERVICE_PATTERN.test(service)) {
+    throw new Error('service must be in domain.service form (e.g., light.turn_on)');
+  }
+  if (target !== undefined && (typeof target !== 'object' || target === null || Array.isArray(target))) {
+    throw new Error('target must be an object');
+  }
+  if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+    throw new Error('data must be an object');
+  }
+
+  return {
+    service,
+    target: target as HAServiceTarget | undefined,
+    data: data as Record<string, unknown> | undefined,
+  };
+}
+
+function riskOf(service: string): RiskLevel {
+  const domain = service.split('.', 1)[0];
+  if (HIGH_RISK_DOMAINS.has(domain)) return 'high';
+  if (LOW_RISK_DOMAINS.has(domain)) return 'low';
+  return 'medium';
+}
+
+/**
+ * Create the call_service tool
+ */
+export function createCallServiceTool(): ToolSpec {
+  return {
+    name: 'call_service',
+    description:
+      'Call a Home Assistant service (e.g., light.turn_on). Only services allowlisted by the session policy can be called; ' +
+      'risky calls wait for the user to approve them.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        service: {
+          type: 'string',
+          description: 'Service in domain.service form (e.g., light.turn_on)',
+        },
+        target: {
+          type: 'object',
+          description: 'Service target',
+          properties: {
+            entity_id: { type: ['string', 'array'], items: { type: 'string' } },
+            device_id: { type: ['string', 'array'], items: { type: 'string' } },
+            area_id: { type: ['string', 'array'], items: { type: 'string' } },
+          },
+        },
+        data: {
+          type: 'object',
+          description: 'Service data (e.g., { "brightness_pct": 50 })',
+        },
+      },
+      required: ['service'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        service: { type: 'string' },
+        contextId: { type: 'string' },
+        response: {},
+      },
+    },
+    invoke: async (args, ctx) => {
+      const { service, target, data } = parseArgs(args);
+      const [domain, name] = service.split('.', 2);
+
+      const result = await ctx.haClient.callService(domain, name, data, target);
+
+      return {
+        service,
+        contextId: result.context?.id,
+        response: result.response,
+      };
+    },
+    cost: {
+      estimatedMs: 500,
+      estimatedTokens: 50,
+    },
+    safety: {
+      requiresActuation: true,
+      riskLevel: 'medium',
+      assess: (args, policy) => {
+        const { service } = parseArgs(args);
+        checkServicePolicy(policy, service);
+        return riskOf(service);
+      },
+    },
+  };
+}
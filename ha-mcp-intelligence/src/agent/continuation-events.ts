@@ -0,0 +1,112 @@
+/**
+ * ContinuationEventBus - In-process pub/sub for continuation progress
+ *
+ * Listeners subscribe to a single continuation or to every continuation in a
+ * session. Used to stream progress to SSE clients.
+ */
+
+import type { ContinuationEvent } from './types.js';
+
+export type ContinuationEventListener = (event: ContinuationEvent) => void;
+
+export class ContinuationEventBus {
+  private listeners = new Map<string, Set<ContinuationEventListener>>();
+
+  /**
+   * Subscribe to events for a continuation
+   * Returns an unsubscribe function
+   */
+  subscribeContinuation(continuationId: string, listener: ContinuationEventListener): () => void {
+    return this.subscribe(`continuation:${continuationId}`, listener);
+  }
+
+  /**
+   * Subscribe to events for every continuation in a session
+   * Returns an unsubscribe function
+   */
+  subscribeSession(sessionId: string, listener: ContinuationEventListener): () => void {
+    return this.subscribe(`session:${sessionId}`, listener);
+  }
+
+  /**
+   * Publish an event to continuation and session subscribers
+   */
+  emit(event: ContinuationEvent): void {
+    this.dispatch(`continuation:${event.continuationId}`, event);
+    this.dispatch(`session:${event.sessionId}`, event);
+  }
+
+  private subscribe(key: string, listener: ContinuationEventListener): () => void {
+    let set = this.listeners.get(key);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(key, set);
+    }
+    set.add(listener);
+
+    return () => {
+      set!.delete(listener);
+      if (set!.size === 0) {
+        this.listeners.delete(key);
+      }
+    };
+  }
+
+  private dispatch(key: string, event: ContinuationEvent): void {
+    const set = this.listeners.get(key);
+    if (!set) {
+      return;
+    }
+
+    for (const listener of Array.from(set)) {
+      try {
+        listener(event);
+      } catch (err) {
+        // A broken subscriber must not break the continuation
+        console.error(`Continuation event listener failed (${key}):`, err);
+      }
+    }
+  }
+}
+
+/**
+ * Coalesces token deltas so subscribers receive at most one partial per interval
+ */
+export class PartialCoalescer {
+  private buffer = '';
+  private timer: NodeJS.Timeout | null = null;
+  private onFlush: (text: string) => void;
+  private intervalMs: number;
+
+  constructor(onFlush: (text: string) => void, intervalMs: number) {
+    this.onFlush = onFlush;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Buffer a delta, scheduling a flush if none is pending
+   */
+  push(delta: string): void {
+    this.buffer += delta;
+
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.intervalMs);
+    }
+  }
+
+  /**
+   * Emit any buffered text immediately
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.buffer.length > 0) {
+      const text = this.buffer;
+      this.buffer = '';
+      this.onFlush(text);
+    }
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Filtering shared by the AgentStore implementations' queryContinuations()
+ */
+
+import type { Continuation, ContinuationQuery } from './types.js';
+
+/**
+ * Case-insensitive substring match against the request message and final response
+ */
+export function matchesText(continuation: Continuation, text: string): boolean {
+  const needle = text.toLowerCase();
+  return (
+    continuation.request.message.toLowerCase().includes(needle) ||
+    (continuation.response?.finalMessage.toLowerCase().includes(needle) ?? false)
+  );
+}
+
+export function matchesContinuationQuery(continuation: Continuation, query: ContinuationQuery): boolean {
+  return (
+    (!query.sessionIds || query.sessionIds.includes(continuation.sessionId)) &&
+    (!query.status || query.status.includes(continuation.status)) &&
+    (query.createdAfter === undefined || continuation.createdAt >= query.createdAfter) &&
+    (query.createdBefore === undefined || continuation.createdAt < query.createdBefore) &&
+    (!query.text || matchesText(continuation, query.text))
+  );
+}
+
+/**
+ * Order by creation time (ties by ID) and apply offset and limit
+ */
+export function sortAndPage(continuations: Continuation[], query: ContinuationQuery): Continuation[] {
+  const direction = query.order === 'desc' ? -1 : 1;
+  const sorted = [...continuations].sort(
+    (a, b) => direction * (a.createdAt - b.createdAt || (a.id < b.id ? -1 : 1))
+  );
+
+  const offset = query.offset ?? 0;
+  return sorted.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+}
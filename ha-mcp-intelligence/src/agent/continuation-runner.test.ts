@@ -0,0 +1,133 @@
+import { answer, createAgentHarness, toolCall } from '../testing/agent-harness.js';
+import type { AgentHarness } from '../testing/agent-harness.js';
+import type { AgentSession, ContinuationRequest } from './types.js';
+
+describe('ContinuationRunner ReAct loop', () => {
+  let harness: AgentHarness;
+  let session: AgentSession;
+
+  beforeEach(async () => {
+    harness = await createAgentHarness();
+    session = await harness.sessions.createSession();
+
+    harness.tools.register({
+      name: 'get_state',
+      description: 'Read an entity state',
+      inputSchema: { type: 'object' },
+      outputSchema: { type: 'object' },
+      invoke: async (args) => ({ entity_id: (args as { entity_id: string }).entity_id, state: 'on' }),
+    });
+    harness.tools.register({
+      name: 'broken',
+      description: 'Always fails',
+      inputSchema: { type: 'object' },
+      outputSchema: { type: 'object' },
+      invoke: async () => {
+        throw new Error('sensor offline');
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  async function run(request: Partial<ContinuationRequest> = {}) {
+    const continuation = await harness.runner.createContinuation(session, {
+      message: 'Is the kitchen light on?',
+      allowTools: true,
+      maxSteps: 5,
+      timeBudgetMs: 10_000,
+      ...request,
+    });
+    await harness.runner.execute(session, continuation);
+    return continuation;
+  }
+
+  it('answers directly when the model calls no tools', async () => {
+    const { provider } = harness;
+    provider.script(answer('Yes, it is on.'));
+
+    const continuation = await run();
+
+    expect(continuation.status).toBe('completed');
+    expect(continuation.response?.finalMessage).toBe('Yes, it is on.');
+    expect(continuation.usage?.steps).toBe(1);
+    expect(provider.requests[0].messages[0].role).toBe('system');
+    expect(provider.requests[0].messages.at(-1)).toEqual({ role: 'user', content: 'Is the kitchen light on?' });
+    expect(provider.requests[0].tools?.map((t) => t.name)).toEqual(['get_state', 'broken']);
+  });
+
+  it('feeds tool results back to the model as observations', async () => {
+    const { provider } = harness;
+    provider.script(toolCall('call-1', 'get_state', { entity_id: 'light.kitchen' }), answer('The kitchen light is on.'));
+
+    const continuation = await run();
+
+    expect(continuation.response?.finalMessage).toBe('The kitchen light is on.');
+    expect(continuation.usage).toMatchObject({ steps: 2, toolCalls: 1 });
+
+    const second = provider.requests[1].messages;
+    expect(second.at(-2)).toMatchObject({ role: 'assistant', toolCalls: [{ id: 'call-1', name: 'get_state' }] });
+    expect(second.at(-1)).toEqual({
+      role: 'tool',
+      toolCallId: 'call-1',
+      name: 'get_state',
+      content: JSON.stringify({ entity_id: 'light.kitchen', state: 'on' }),
+    });
+
+    const logged = continuation.stepLog.filter((e) => e.type === 'tool_call' || e.type === 'tool_result');
+    expect(logged.map((e) => [e.type, (e.detail as { callId?: string }).callId])).toEqual([
+      ['tool_call', 'call-1'],
+      ['tool_result', 'call-1'],
+    ]);
+  });
+
+  it('reports tool failures and unknown tools to the model instead of failing', async () => {
+    const { provider } = harness;
+    provider.script(
+      { content: '', toolCalls: [{ id: 'a', name: 'broken', arguments: {} }, { id: 'b', name: 'missing', arguments: {} }] },
+      answer('The sensor is offline.')
+    );
+
+    const continuation = await run();
+
+    expect(continuation.status).toBe('completed');
+    const observations = provider.requests[1].messages.filter((m) => m.role === 'tool').map((m) => JSON.parse(m.content));
+    expect(observations).toEqual([{ error: 'sensor offline' }, { error: 'Tool missing is not available' }]);
+  });
+
+  it('withholds tools on the last step so the model has to answer', async () => {
+    const { provider } = harness;
+    provider.script(
+      toolCall('call-1', 'get_state', { entity_id: 'light.kitchen' }),
+      toolCall('call-2', 'get_state', { entity_id: 'light.hall' })
+    );
+
+    const continuation = await run({ maxSteps: 2 });
+
+    expect(provider.requests[0].tools).toBeDefined();
+    expect(provider.requests[1].tools).toBeUndefined();
+    expect(continuation.status).toBe('completed');
+    expect(continuation.response?.finalMessage).toBe('calling get_state');
+    expect(continuation.usage).toMatchObject({ steps: 2, toolCalls: 1 });
+  });
+
+  it('offers no tools when the request disallows them', async () => {
+    const { provider } = harness;
+    provider.script(answer('I cannot check without tools.'));
+
+    await run({ allowTools: false });
+
+    expect(provider.requests[0].tools).toBeUndefined();
+  });
+
+  it('fails the continuation when the provider errors', async () => {
+    await expect(run()).rejects.toThrow('Script exhausted');
+
+    const [id] = await harness.store.listContinuations(session.id);
+    const stored = await harness.store.readContinuation(session.id, id);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.error?.code).toBe('EXECUTION_ERROR');
+  });
+});
@@ -1,19 +1,39 @@
 /**
- * ContinuationRunner - Executes continuations with ReAct planning
+ * ContinuationRunner - Executes continuations with an LLM-driven ReAct loop
  */
 
 import { ulid } from './ulid.js';
-import { StepLogger } from './step-logger.js';
 import { ArtifactStore } from './artifact-store.js';
-import { FileLayout } from './file-layout.js';
 import { ToolRegistry } from './tool-registry.js';
+import { AgentError } from './errors.js';
+import { ProviderRegistry } from './providers/provider-registry.js';
+import { ContinuationEventBus, PartialCoalescer } from './continuation-events.js';
+import { buildMemoryContext, estimateTokens } from './memory-manager.js';
+import { BudgetMeter, emptyUsage } from './budget-meter.js';
+import { isMigrationFailure } from './schema-migrations.js';
+import { DEFAULTS } from './types.js';
 import type {
+  ChatMessage,
+  ConfirmationDecision,
+  ConfirmationRequest,
   Continuation,
   ContinuationRequest,
   ContinuationResponse,
+  ContinuationEvent,
+  ContinuationQuery,
   ContinuationStatus,
   AgentSession,
+  AgentStore,
+  PendingAction,
+  ModelChatRequest,
+  ModelChatResponse,
+  ModelConfig,
+  ModelProvider,
+  ModelToolCall,
+  ModelToolDefinition,
+  PlannerHints,
   StepLogEntry,
+  StepLogWriter,
   ToolInvokeContext,
 } from './types.js';
 import type { SupervisorClient } from '../server/supervisor-client.js';
@@ -21,28 +41,86 @@ import type { BackgroundIndexer } from '../intelligence/background-indexer.js';
 
 export interface ContinuationRunnerConfig {
   dataPath: string;
-  fileLayout: FileLayout;
+  store: AgentStore;
   toolRegistry: ToolRegistry;
   artifactStore: ArtifactStore;
   haClient: SupervisorClient;
   indexer: BackgroundIndexer;
+  providers: ProviderRegistry;
+  events?: ContinuationEventBus;
+  confirmationTimeoutMs?: number;
+}
+
+// Tool results larger than this are stored as artifacts instead of inlined
+const MAX_OBSERVATION_CHARS = 8000;
+
+// Statuses a continuation can only be in while this process is executing it
+const IN_FLIGHT_STATUSES = new Set<ContinuationStatus>(['pending', 'running', 'streaming', 'awaiting_confirmation']);
+
+export interface ExecuteOptions {
+  resume?: boolean; // Rebuild the transcript from the step log and continue after the last completed step
+  timeBudgetMs?: number; // Overrides request.timeBudgetMs (remaining budget when resuming)
+}
+
+interface PendingConfirmation {
+  actionId: string;
+  resolve: (decision: ConfirmationDecision) => void;
 }
 
 export class ContinuationRunner {
-  private fileLayout: FileLayout;
+  private store: AgentStore;
   private toolRegistry: ToolRegistry;
   private artifactStore: ArtifactStore;
   private haClient: SupervisorClient;
   private indexer: BackgroundIndexer;
+  private providers: ProviderRegistry;
+  private events: ContinuationEventBus;
   private activeContinuations = new Map<string, Continuation>();
   private abortControllers = new Map<string, AbortController>();
+  private meters = new Map<string, BudgetMeter>();
+  private pendingConfirmations = new Map<string, PendingConfirmation>(); // By continuation ID
+  private confirmationTimeoutMs: number;
 
   constructor(config: ContinuationRunnerConfig) {
-    this.fileLayout = config.fileLayout;
+    this.store = config.store;
     this.toolRegistry = config.toolRegistry;
     this.artifactStore = config.artifactStore;
     this.haClient = config.haClient;
     this.indexer = config.indexer;
+    this.providers = config.providers;
+    this.events = config.events || new ContinuationEventBus();
+    this.confirmationTimeoutMs = config.confirmationTimeoutMs ?? DEFAULTS.confirmation.timeoutMs;
+  }
+
+  /**
+   * Resolve the model for a turn, enforcing SessionPolicy.enforceFixedModel
+   */
+  resolveModel(session: AgentSession, override?: ModelConfig): ModelConfig {
+    let model = session.model;
+
+    if (override) {
+      const switching =
+        override.provider !== session.model.provider || override.modelId !== session.model.modelId;
+
+      if (switching && session.policy.enforceFixedModel) {
+        throw new AgentError(
+          'MODEL_SWITCH_DENIED',
+          `Session ${session.id} is pinned to ${session.model.provider}/${session.model.modelId}`
+        );
+      }
+
+      model = { ...session.model, ...override };
+    }
+
+    this.validateModel(model);
+    return model;
+  }
+
+  /**
+   * Check that a model's provider is registered (fail fast rather than at execution time)
+   */
+  validateModel(model: ModelConfig): void {
+    this.providers.resolve(model);
   }
 
   /**
@@ -52,6 +130,12 @@ export class ContinuationRunner {
     session: AgentSession,
     request: ContinuationRequest
   ): Promise<Continuation> {
+    request = {
+      ...request,
+      model: this.resolveModel(session, request.model),
+      stream: request.stream ?? session.preferences?.streamingEnabled ?? false,
+    };
+
     const continuationId = ulid();
     const now = Date.now();
 
@@ -66,7 +150,7 @@ export class ContinuationRunner {
     };
 
     this.activeContinuations.set(continuationId, continuation);
-    await this.fileLayout.writeContinuation(session.id, continuation);
+    await this.store.writeContinuation(session.id, continuation);
 
     return continuation;
   }
@@ -74,149 +158,779 @@ export class ContinuationRunner {
   /**
    * Execute a continuation
    */
-  async execute(session: AgentSession, continuation: Continuation): Promise<void> {
+  async execute(session: AgentSession, continuation: Continuation, options: ExecuteOptions = {}): Promise<void> {
     const abortController = new AbortController();
     this.abortControllers.set(continuation.id, abortController);
 
+    // Budgets abort the continuation when exceeded; usage accumulates across resumes
+    continuation.usage = continuation.usage ?? emptyUsage();
+    const meter = new BudgetMeter({
+      budgets: session.budgets,
+      maxSteps: continuation.request.maxSteps,
+      timeBudgetMs: options.timeBudgetMs ?? continuation.request.timeBudgetMs,
+      usage: continuation.usage,
+      abortController,
+    });
+    this.meters.set(continuation.id, meter);
+
+    let stepLogger: StepLogWriter | undefined;
+
     try {
-      // Update status to running
-      continuation.status = 'running';
-      continuation.updatedAt = Date.now();
-      await this.fileLayout.writeContinuation(session.id, continuation);
-
-      // Initialize step logger
-      const logPath = this.fileLayout.getLogFile(session.id, continuation.id);
-      const stepLogger = new StepLogger({
-        logPath,
-        autoFlush: true,
-        flushIntervalMs: 2000,
-      });
+      await this.setStatus(continuation, 'running');
 
-      await stepLogger.start();
+      const stepLog = await this.store.openStepLog(session.id, continuation.id);
+      stepLogger = stepLog;
 
       // Create tool invoke context
       const toolCtx: ToolInvokeContext = {
         session,
         signal: abortController.signal,
-        logger: (entry: StepLogEntry) => {
+        logger: (logged: StepLogEntry) => {
+          const entry = { ...logged, wallTimeMs: meter.wallTime() };
           continuation.stepLog.push(entry);
-          stepLogger.log(entry);
+          stepLog.log(entry);
+          this.emit(continuation, 'step', { step: entry });
         },
         haClient: this.haClient,
         index: this.indexer,
         artifacts: this.artifactStore,
+        confirm: (request) => this.awaitConfirmation(continuation, request, toolCtx),
+        budget: meter,
       };
 
       // Log start
       toolCtx.logger({
         ts: Date.now(),
         type: 'plan',
-        detail: { message: 'Starting continuation execution' },
+        detail: {
+          message: options.resume ? 'Resuming continuation execution' : 'Starting continuation execution',
+        },
       });
 
-      // TODO: Implement actual ReAct loop with LLM
-      // For MVP, we'll create a simple stub response
-      const response = await this.runSimplePlanner(continuation.request, toolCtx);
+      const response = await this.runReActLoop(session, continuation, toolCtx, meter, options.resume ?? false);
 
       // Update continuation with response
       continuation.response = response;
-      continuation.status = 'completed';
-      continuation.updatedAt = Date.now();
-
-      await stepLogger.close();
-      await this.fileLayout.writeContinuation(session.id, continuation);
+      meter.stop();
+      await this.setStatus(continuation, 'completed');
+      this.emit(continuation, 'final', { status: 'completed', finalResponse: response });
     } catch (err) {
-      continuation.status = 'failed';
-      continuation.error = {
-        code: 'EXECUTION_ERROR',
-        message: (err as Error).message,
-        details: { stack: (err as Error).stack },
-        recoverable: false,
-      };
-      continuation.updatedAt = Date.now();
-      await this.fileLayout.writeContinuation(session.id, continuation);
+      meter.stop();
+
+      // cancel() has already recorded the final state
+      if (continuation.status !== 'cancelled') {
+        const error = this.toAgentError(err, abortController.signal);
+        continuation.error = {
+          code: error.code,
+          message: error.message,
+          details: { ...error.details, stack: error.stack },
+          recoverable: error.recoverable,
+        };
+        await this.setStatus(continuation, 'failed');
+        this.emit(continuation, 'final', { status: 'failed', error: continuation.error });
+      }
 
       throw err;
     } finally {
+      meter.stop();
+      this.meters.delete(continuation.id);
+      await stepLogger?.close().catch((err) => {
+        console.error(`Failed to close step log for ${continuation.id}:`, err);
+      });
       this.abortControllers.delete(continuation.id);
       this.activeContinuations.delete(continuation.id);
     }
   }
 
   /**
-   * Simple planner stub (will be replaced with actual LLM-based ReAct loop)
+   * ReAct loop: plan -> tool_call -> observation, repeated until the model answers
+   *
+   * Each model call counts as one step. The last permitted step is made without
+   * tools so the model has to produce a final answer within the step budget, and
+   * tools stop being offered once the tool call budget is spent. The meter aborts
+   * the loop if the token or time budget runs out before the model has answered.
+   * When resuming, steps already in the step log are replayed instead of re-run.
    */
-  private async runSimplePlanner(
-    request: ContinuationRequest,
-    ctx: ToolInvokeContext
+  private async runReActLoop(
+    session: AgentSession,
+    continuation: Continuation,
+    ctx: ToolInvokeContext,
+    meter: BudgetMeter,
+    resume: boolean
   ): Promise<ContinuationResponse> {
-    // Log the request
+    const request = continuation.request;
+    const maxSteps = Math.max(1, meter.limit('steps'));
+    const maxToolCalls = meter.limit('toolCalls');
+    const model = request.model || session.model;
+    const provider = this.providers.resolve(model);
+    const tools = request.allowTools ? this.selectTools(session, request.plannerHints) : [];
+    const messages = this.buildMessages(session, continuation, tools);
+
     ctx.logger({
       ts: Date.now(),
       type: 'plan',
-      detail: { phase: 'analyzing_request', message: request.message },
+      detail: {
+        phase: 'analyzing_request',
+        message: request.message,
+        model: `${model.provider}/${model.modelId}`,
+        tools: tools.map((t) => t.name),
+        maxSteps,
+        maxToolCalls,
+      },
     });
 
-    // For MVP, return a simple acknowledgment
-    // TODO: Implement actual LLM call with ReAct prompting
-    const response: ContinuationResponse = {
-      finalMessage: `I received your message: "${request.message}". This is a stub response. Full LLM integration coming in next iteration.`,
-      reasoningSummary: 'Stub planner - no actual reasoning performed yet',
-      followUps: ['Implement actual LLM integration', 'Add ReAct loop', 'Add tool selection'],
+    let toolCalls = 0;
+    let firstStep = 1;
+
+    if (resume) {
+      const restored = this.restoreTranscript(continuation, messages, maxToolCalls);
+      meter.restore(restored.step, restored.toolCalls);
+
+      if (restored.finalMessage !== undefined) {
+        // The answer was produced before the interruption; only the summary was lost
+        const response: ContinuationResponse = {
+          finalMessage: restored.finalMessage || 'No answer was produced within the step budget.',
+          reasoningSummary: `Answered after ${restored.step} step(s) and ${restored.toolCalls} tool call(s)`,
+        };
+        ctx.logger({ ts: Date.now(), type: 'summary', detail: { response } });
+        return response;
+      }
+
+      firstStep = restored.step + 1;
+      toolCalls = restored.toolCalls;
+
+      ctx.logger({
+        ts: Date.now(),
+        type: 'plan',
+        detail: { phase: 'resumed', stepsReplayed: restored.step, toolCallsReplayed: toolCalls },
+      });
+    }
+
+    for (let step = firstStep; step <= maxSteps; step++) {
+      this.throwIfAborted(ctx.signal);
+
+      const offerTools = tools.length > 0 && step < maxSteps && toolCalls < maxToolCalls;
+      const reply = await this.callModel(provider, continuation, {
+        model,
+        messages,
+        tools: offerTools ? tools : undefined,
+        signal: ctx.signal,
+      });
+
+      ctx.logger({
+        ts: Date.now(),
+        type: 'plan',
+        detail: {
+          step,
+          thought: reply.content,
+          toolCalls: reply.toolCalls.map((c) => ({ id: c.id, tool: c.name, args: c.arguments })),
+          finishReason: reply.finishReason,
+          usage: reply.usage,
+        },
+      });
+
+      const final = !offerTools || reply.toolCalls.length === 0;
+      meter.recordStep(reply.usage, estimateTokens(JSON.stringify(messages)) + estimateTokens(reply.content), final);
+
+      if (final) {
+        const response: ContinuationResponse = {
+          finalMessage: reply.content || 'No answer was produced within the step budget.',
+          reasoningSummary: `Answered after ${step} step(s) and ${toolCalls} tool call(s)`,
+        };
+
+        ctx.logger({
+          ts: Date.now(),
+          type: 'summary',
+          detail: { response },
+        });
+
+        return response;
+      }
+
+      messages.push({ role: 'assistant', content: reply.content, toolCalls: reply.toolCalls });
+
+      for (const call of reply.toolCalls) {
+        let observation: string;
+        if (toolCalls >= maxToolCalls) {
+          observation = JSON.stringify({ error: `Tool call budget of ${maxToolCalls} exhausted` });
+        } else {
+          toolCalls++;
+          observation = await this.observe(continuation, call, tools, ctx);
+        }
+
+        messages.push({ role: 'tool', toolCallId: call.id, name: call.name, content: observation });
+      }
+    }
+
+    // Unreachable: the final step never offers tools
+    throw new AgentError('STEP_LIMIT_EXCEEDED', `No answer after ${maxSteps} steps`);
+  }
+
+  /**
+   * Call the model, streaming coalesced partial output to subscribers when requested
+   */
+  private async callModel(
+    provider: ModelProvider,
+    continuation: Continuation,
+    request: ModelChatRequest
+  ): Promise<ModelChatResponse> {
+    if (!continuation.request.stream) {
+      return await provider.chat(request);
+    }
+
+    const partials = new PartialCoalescer(
+      (text) => this.emit(continuation, 'partial', { partialResponse: text }),
+      DEFAULTS.streaming.partialUpdateIntervalMs
+    );
+
+    let reply: ModelChatResponse | undefined;
+    try {
+      for await (const chunk of provider.stream(request)) {
+        if (chunk.type === 'text') {
+          if (continuation.status !== 'streaming') {
+            await this.setStatus(continuation, 'streaming');
+          }
+          partials.push(chunk.delta);
+        } else {
+          reply = chunk.response;
+        }
+      }
+    } finally {
+      partials.flush();
+    }
+
+    if (!reply) {
+      throw new Error(`${provider.name} stream ended without a response`);
+    }
+
+    // Back to running while tools execute
+    if (reply.toolCalls.length > 0 && continuation.status === 'streaming') {
+      await this.setStatus(continuation, 'running');
+    }
+
+    return reply;
+  }
+
+  /**
+   * Invoke a tool requested by the model and render the observation for the transcript
+   * Step log entries written for the call carry its callId so a resume can match results to calls.
+   */
+  private async observe(
+    continuation: Continuation,
+    call: ModelToolCall,
+    tools: ModelToolDefinition[],
+    ctx: ToolInvokeContext
+  ): Promise<string> {
+    const name = call.name;
+    const callCtx: ToolInvokeContext = {
+      ...ctx,
+      logger: (entry) =>
+        ctx.logger({ ...entry, detail: { ...(entry.detail as Record<string, unknown>), callId: call.id } }),
+      confirm: (request) => this.awaitConfirmation(continuation, request, callCtx, call.id),
+    };
+
+    if (!tools.some((t) => t.name === name)) {
+      callCtx.logger({
+        ts: Date.now(),
+        type: 'error',
+        detail: { tool: name, error: 'Tool not available to this continuation' },
+      });
+      return JSON.stringify({ error: `Tool ${name} is not available` });
+    }
+
+    try {
+      const result = await this.toolRegistry.invoke(name, call.arguments, callCtx);
+      const serialized = JSON.stringify(result ?? null);
+
+      if (serialized.length <= MAX_OBSERVATION_CHARS) {
+        return serialized;
+      }
+
+      // Keep large results out of the prompt; the model sees a preview and a reference
+      const artifact = await this.artifactStore.write(
+        'json',
+        serialized,
+        { tool: name },
+        { sessionId: continuation.sessionId, continuationId: continuation.id, tags: ['tool_result'] }
+      );
+      continuation.artifacts = [...(continuation.artifacts || []), artifact];
+
+      return JSON.stringify({
+        truncated: true,
+        artifactId: artifact.id,
+        preview: serialized.substring(0, MAX_OBSERVATION_CHARS),
+      });
+    } catch (err) {
+      // Aborts end the loop; ordinary tool failures are fed back to the model
+      this.throwIfAborted(ctx.signal);
+      return JSON.stringify({ error: (err as Error).message });
+    }
+  }
+
+  /**
+   * Pause a tool call until approve()/reject() decides on it, the confirmation times out
+   * or the continuation is aborted
+   *
+   * The pending action is persisted with the awaiting_confirmation status, and the
+   * request and decision are recorded in the step log.
+   */
+  private async awaitConfirmation(
+    continuation: Continuation,
+    request: ConfirmationRequest,
+    ctx: ToolInvokeContext,
+    callId?: string
+  ): Promise<ConfirmationDecision> {
+    const now = Date.now();
+    const action: PendingAction = {
+      id: ulid(),
+      callId,
+      tool: request.tool,
+      args: request.args,
+      riskLevel: request.riskLevel,
+      requestedAt: now,
+      expiresAt: now + this.confirmationTimeoutMs,
     };
 
     ctx.logger({
+      ts: now,
+      type: 'plan',
+      detail: {
+        phase: 'awaiting_confirmation',
+        actionId: action.id,
+        tool: action.tool,
+        args: action.args,
+        riskLevel: action.riskLevel,
+        expiresAt: action.expiresAt,
+      },
+    });
+
+    continuation.pendingAction = action;
+    await this.setStatus(continuation, 'awaiting_confirmation');
+
+    const meter = this.meters.get(continuation.id);
+    meter?.pause();
+
+    try {
+      const decision = await new Promise<ConfirmationDecision>((resolve, reject) => {
+        const cleanup = () => {
+          clearTimeout(expiry);
+          ctx.signal.removeEventListener('abort', onAbort);
+          this.pendingConfirmations.delete(continuation.id);
+        };
+        const settle = (decision: ConfirmationDecision) => {
+          cleanup();
+          resolve(decision);
+        };
+        const onAbort = () => {
+          cleanup();
+          reject(ctx.signal.reason instanceof AgentError ? ctx.signal.reason : new AgentError('CANCELLED', 'Continuation aborted'));
+        };
+
+        const expiry = setTimeout(
+          () => settle({ approved: false, expired: true, reason: 'Confirmation timed out' }),
+          this.confirmationTimeoutMs
+        );
+
+        if (ctx.signal.aborted) {
+          onAbort();
+          return;
+        }
+        ctx.signal.addEventListener('abort', onAbort, { once: true });
+        this.pendingConfirmations.set(continuation.id, { actionId: action.id, resolve: settle });
+      });
+
+      ctx.logger({
+        ts: Date.now(),
+        type: 'plan',
+        detail: {
+          phase: decision.expired ? 'action_expired' : decision.approved ? 'action_approved' : 'action_rejected',
+          actionId: action.id,
+          reason: decision.reason,
+        },
+      });
+
+      continuation.pendingAction = undefined;
+      await this.setStatus(continuation, 'running');
+
+      return decision;
+    } finally {
+      continuation.pendingAction = undefined;
+      meter?.resume();
+    }
+  }
+
+  /**
+   * Approve or reject the action a continuation is waiting on
+   * Returns false if the continuation is not waiting for confirmation (or is waiting on a different action).
+   */
+  resolveConfirmation(continuationId: string, decision: ConfirmationDecision, actionId?: string): boolean {
+    const pending = this.pendingConfirmations.get(continuationId);
+    if (!pending || (actionId && pending.actionId !== actionId)) {
+      return false;
+    }
+
+    pending.resolve(decision);
+    return true;
+  }
+
+  /**
+   * Session of a continuation this process holds (pending, queued or running)
+   */
+  getActiveSessionId(continuationId: string): string | undefined {
+    return this.activeContinuations.get(continuationId)?.sessionId;
+  }
+
+  /**
+   * Actions awaiting confirmation, optionally limited to one session
+   */
+  listPendingActions(sessionId?: string): Array<{ sessionId: string; continuationId: string; action: PendingAction }> {
+    return Array.from(this.activeContinuations.values())
+      .filter((c) => c.pendingAction && (!sessionId || c.sessionId === sessionId))
+      .map((c) => ({ sessionId: c.sessionId, continuationId: c.id, action: c.pendingAction! }));
+  }
+
+  /**
+   * Rebuild the model transcript from the step log after an interruption
+   *
+   * Appends the assistant tool-call turns and their observations to messages. Completed
+   * tool results are reused; calls that never finished are reported to the model as
+   * interrupted rather than re-run, since they may have had side effects.
+   */
+  private restoreTranscript(
+    continuation: Continuation,
+    messages: ChatMessage[],
+    maxToolCalls: number
+  ): { step: number; toolCalls: number; finalMessage?: string } {
+    type LoggedCall = { id?: string; tool: string; args: unknown };
+    type PlanDetail = { step?: number; thought?: string; toolCalls?: LoggedCall[] };
+    type CallDetail = { callId?: string; phase?: string; result?: unknown; error?: string };
+
+    const outcomes = new Map<string, StepLogEntry>();
+    const awaitingConfirmation = new Set<string>();
+    for (const entry of continuation.stepLog) {
+      const detail = entry.detail as CallDetail | null;
+      const callId = detail?.callId;
+      if (!callId) {
+        continue;
+      }
+      if (entry.type === 'tool_result' || entry.type === 'error') {
+        outcomes.set(callId, entry);
+      } else if (entry.type === 'plan' && detail.phase === 'awaiting_confirmation') {
+        awaitingConfirmation.add(callId);
+      } else if (entry.type === 'plan' && detail.phase?.startsWith('action_')) {
+        awaitingConfirmation.delete(callId);
+      }
+    }
+
+    let step = 0;
+    let toolCalls = 0;
+
+    for (const entry of continuation.stepLog) {
+      const detail = entry.detail as PlanDetail | null;
+      if (entry.type !== 'plan' || typeof detail?.step !== 'number') {
+        continue;
+      }
+
+      step = detail.step;
+      const calls = detail.toolCalls || [];
+      if (calls.length === 0) {
+        return { step, toolCalls, finalMessage: detail.thought || '' };
+      }
+
+      if (calls.some((c) => !c.id)) {
+        throw new AgentError('RESUME_UNSUPPORTED', 'Step log predates resumable tool call records');
+      }
+
+      messages.push({
+        role: 'assistant',
+        content: detail.thought || '',
+        toolCalls: calls.map((c) => ({ id: c.id!, name: c.tool, arguments: c.args })),
+      });
+
+      for (const call of calls) {
+        const outcome = outcomes.get(call.id!);
+        const outcomeDetail = outcome?.detail as CallDetail | undefined;
+        let content: string;
+
+        if (outcome?.type === 'tool_result') {
+          toolCalls++;
+          const serialized = JSON.stringify(outcomeDetail?.result ?? null);
+          content =
+            serialized.length <= MAX_OBSERVATION_CHARS
+              ? serialized
+              : JSON.stringify({ truncated: true, preview: serialized.substring(0, MAX_OBSERVATION_CHARS) });
+        } else if (outcome) {
+          toolCalls++;
+          content = JSON.stringify({ error: outcomeDetail?.error });
+        } else if (toolCalls >= maxToolCalls) {
+          content = JSON.stringify({ error: `Tool call budget of ${maxToolCalls} exhausted` });
+        } else if (awaitingConfirmation.has(call.id!)) {
+          toolCalls++;
+          content = JSON.stringify({ error: 'Interrupted while awaiting confirmation; the action was not performed' });
+        } else {
+          content = JSON.stringify({ error: 'Interrupted before this tool call completed; its effect is unknown' });
+        }
+
+        messages.push({ role: 'tool', toolCallId: call.id, name: call.tool, content });
+      }
+    }
+
+    return { step, toolCalls };
+  }
+
+  /**
+   * Select the tools offered to the model, honoring planner hints and the actuation policy
+   */
+  private selectTools(session: AgentSession, hints?: PlannerHints): ModelToolDefinition[] {
+    const avoid = new Set(hints?.avoidTools || []);
+    return this.toolRegistry
+      .getToolCatalog()
+      .filter((tool) => !avoid.has(tool.name))
+      .filter((tool) => session.policy.allowActuation || this.toolRegistry.isSafeTool(tool.name));
+  }
+
+  /**
+   * Build the initial prompt for a continuation
+   */
+  private buildMessages(
+    session: AgentSession,
+    continuation: Continuation,
+    tools: ModelToolDefinition[]
+  ): ChatMessage[] {
+    const request = continuation.request;
+    const system = [
+      'You are a Home Assistant diagnostics agent running inside the ha-mcp-intelligence add-on.',
+      'Work step by step: decide what you need to know, call tools to gather evidence, then answer.',
+      'Only state facts supported by tool results. When you have enough information, reply without calling tools.',
+    ];
+
+    if (tools.length === 0) {
+      system.push('No tools are available for this request; answer from the conversation alone.');
+    }
+    if (request.plannerHints?.preferTools?.length) {
+      system.push(`Prefer these tools when relevant: ${request.plannerHints.preferTools.join(', ')}.`);
+    }
+    if (request.plannerHints?.focusAreas?.length) {
+      system.push(`Focus areas: ${request.plannerHints.focusAreas.join(', ')}.`);
+    }
+
+    // Long-term memory: rolling summary, relevant facts, pins, then the lastK turns
+    const memory = buildMemoryContext(session.memory, request.message, continuation.id);
+
+    return [
+      { role: 'system', content: [system.join('\n'), ...memory.system].join('\n\n') },
+      ...memory.history,
+      { role: 'user', content: request.message },
+    ];
+  }
+
+  /**
+   * Update, persist and publish a continuation's status
+   */
+  private async setStatus(continuation: Continuation, status: ContinuationStatus): Promise<void> {
+    continuation.status = status;
+    continuation.updatedAt = Date.now();
+    await this.store.writeContinuation(continuation.sessionId, continuation);
+    this.emit(continuation, 'status', { status });
+  }
+
+  /**
+   * Publish a continuation event
+   */
+  private emit(
+    continuation: Continuation,
+    type: ContinuationEvent['type'],
+    payload: ContinuationEvent['payload']
+  ): void {
+    this.events.emit({
+      type,
+      sessionId: continuation.sessionId,
+      continuationId: continuation.id,
       ts: Date.now(),
-      type: 'summary',
-      detail: { response },
+      payload,
     });
+  }
+
+  /**
+   * Throw the abort reason if the continuation has been aborted
+   */
+  private throwIfAborted(signal: AbortSignal): void {
+    if (!signal.aborted) {
+      return;
+    }
 
-    return response;
+    if (signal.reason instanceof AgentError) {
+      throw signal.reason;
+    }
+    throw new AgentError('CANCELLED', 'Continuation aborted');
+  }
+
+  /**
+   * Normalize an execution failure into an AgentError
+   */
+  private toAgentError(err: unknown, signal: AbortSignal): AgentError {
+    if (err instanceof AgentError) {
+      return err;
+    }
+    if (signal.aborted && signal.reason instanceof AgentError) {
+      return signal.reason;
+    }
+    return new AgentError('EXECUTION_ERROR', (err as Error).message);
   }
 
   /**
-   * Cancel a running continuation
+   * Cancel a running continuation, or a pending one that has not started yet
    */
   async cancel(continuationId: string, reason?: string): Promise<boolean> {
     const abortController = this.abortControllers.get(continuationId);
-    if (!abortController) {
+    const continuation = this.activeContinuations.get(continuationId);
+
+    if (abortController) {
+      abortController.abort(new AgentError('CANCELLED', reason || 'Continuation cancelled by user'));
+    } else if (continuation?.status === 'pending') {
+      // Never started, so no execute() will clean up after it
+      this.activeContinuations.delete(continuationId);
+    } else {
       return false; // Not running
     }
 
-    abortController.abort();
-
-    const continuation = this.activeContinuations.get(continuationId);
     if (continuation) {
-      continuation.status = 'cancelled';
+      continuation.pendingAction = undefined;
       continuation.error = {
         code: 'CANCELLED',
         message: reason || 'Continuation cancelled by user',
         recoverable: false,
       };
-      continuation.updatedAt = Date.now();
 
-      await this.fileLayout.writeContinuation(continuation.sessionId, continuation);
+      await this.setStatus(continuation, 'cancelled');
+      this.emit(continuation, 'final', { status: 'cancelled', error: continuation.error });
     }
 
     return true;
   }
 
+  /**
+   * Startup recovery: mark continuations a crash left pending/running/streaming as interrupted
+   *
+   * The turn file is only rewritten on status changes, so the step log (WAL) is
+   * replayed into continuation.stepLog to capture progress made since then.
+   */
+  async recoverSession(session: AgentSession): Promise<Continuation[]> {
+    const recovered: Continuation[] = [];
+
+    for (const continuationId of await this.store.listContinuations(session.id)) {
+      if (this.activeContinuations.has(continuationId)) {
+        continue;
+      }
+
+      let continuation: Continuation | null;
+      let replayed: StepLogEntry[];
+      try {
+        continuation = await this.store.readContinuation(session.id, continuationId);
+        if (!continuation || !IN_FLIGHT_STATUSES.has(continuation.status)) {
+          continue;
+        }
+        replayed = await this.store.readStepLog(session.id, continuationId);
+      } catch (err) {
+        // Left as is; listed in the startup migration report
+        if (isMigrationFailure(err)) {
+          continue;
+        }
+        throw err;
+      }
+
+      if (replayed.length >= continuation.stepLog.length) {
+        continuation.stepLog = replayed;
+      }
+
+      const previousStatus = continuation.status;
+      continuation.pendingAction = undefined;
+      continuation.error = {
+        code: 'INTERRUPTED',
+        message: `Interrupted by a restart while ${previousStatus}`,
+        details: {
+          previousStatus,
+          stepsReplayed: replayed.length,
+          lastStepAt: continuation.stepLog[continuation.stepLog.length - 1]?.ts,
+        },
+        recoverable: true,
+      };
+      await this.setStatus(continuation, 'interrupted');
+
+      recovered.push(continuation);
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Resume an interrupted continuation from its last completed tool result
+   * Throws synchronously if the continuation cannot be resumed.
+   */
+  resume(session: AgentSession, continuation: Continuation): Promise<void> {
+    if (continuation.status !== 'interrupted') {
+      throw new AgentError('NOT_INTERRUPTED', `Continuation ${continuation.id} is ${continuation.status}`);
+    }
+
+    // Time already spent counts against the budget: the wall time logged with the last step
+    // excludes confirmation waits and downtime. Logs written before it was recorded fall back
+    // to the span of their timestamps.
+    const limit = Math.min(continuation.request.timeBudgetMs, session.budgets.maxDurationMs);
+    const timestamps = continuation.stepLog.map((e) => e.ts);
+    const logged = [...continuation.stepLog].reverse().find((e) => e.wallTimeMs !== undefined)?.wallTimeMs;
+    const spent = logged ?? (timestamps.length > 0 ? Math.max(...timestamps) - Math.min(...timestamps) : 0);
+    const remainingMs = limit - spent;
+    if (remainingMs <= 0) {
+      throw new AgentError('BUDGET_EXCEEDED', `Continuation ${continuation.id} has no time budget left`, {
+        details: { budget: 'duration', limit, used: spent },
+      });
+    }
+
+    continuation.usage = { ...(continuation.usage ?? emptyUsage()), wallTimeMs: spent };
+    continuation.error = undefined;
+    this.activeContinuations.set(continuation.id, continuation);
+
+    return this.execute(session, continuation, { resume: true, timeBudgetMs: remainingMs });
+  }
+
   /**
    * Get continuation by ID
    */
   async getContinuation(sessionId: string, continuationId: string): Promise<Continuation | null> {
-    // Check active first
+    // Check active first (only within the given session)
     const active = this.activeContinuations.get(continuationId);
     if (active) {
-      return active;
+      return active.sessionId === sessionId ? active : null;
     }
 
     // Load from disk
-    return await this.fileLayout.readContinuation(sessionId, continuationId);
+    return await this.store.readContinuation(sessionId, continuationId);
+  }
+
+  /**
+   * Query stored continuations; ones running in this process are returned in their live state
+   */
+  async queryContinuations(query: ContinuationQuery): Promise<Continuation[]> {
+    const continuations = await this.store.queryContinuations(query);
+    return continuations.map((continuation) => this.activeContinuations.get(continuation.id) ?? continuation);
+  }
+
+  /**
+   * Read a continuation's step log
+   * The log (WAL) is written as steps happen, so it may be ahead of the turn record.
+   */
+  async getStepLog(continuation: Continuation): Promise<StepLogEntry[]> {
+    const active = this.activeContinuations.get(continuation.id);
+    if (active) {
+      return active.stepLog;
+    }
+
+    const logged = await this.store.readStepLog(continuation.sessionId, continuation.id);
+    return logged.length >= continuation.stepLog.length ? logged : continuation.stepLog;
   }
 
   /**
-   * Wait for continuation to complete
+   * Wait for continuation to complete or to pause for confirmation
    */
   async await(sessionId: string, continuationId: string, timeoutMs = 60000): Promise<Continuation> {
     const start = Date.now();
@@ -227,7 +941,7 @@ export class ContinuationRunner {
         throw new Error(`Continuation ${continuationId} not found`);
       }
 
-      if (this.isFinalStatus(continuation.status)) {
+      if (this.isFinalStatus(continuation.status) || continuation.status === 'awaiting_confirmation') {
         return continuation;
       }
 
@@ -239,9 +953,10 @@ export class ContinuationRunner {
   }
 
   /**
-   * Check if status is final (completed/failed/cancelled)
+   * Check if status is final (completed/failed/cancelled/interrupted)
+   * An interrupted continuation only leaves that state if it is explicitly resumed.
    */
-  private isFinalStatus(status: ContinuationStatus): boolean {
-    return status === 'completed' || status === 'failed' || status === 'cancelled';
+  isFinalStatus(status: ContinuationStatus): boolean {
+    return status === 'completed' || status === 'failed' || status === 'cancelled' || status === 'interrupted';
   }
 }
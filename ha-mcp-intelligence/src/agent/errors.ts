@@ -0,0 +1,24 @@
+/**
+ * Agent error types
+ */
+
+/**
+ * Error carrying a stable code that is surfaced as ContinuationError.code
+ */
+export class AgentError extends Error {
+  readonly code: string;
+  readonly recoverable: boolean;
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    code: string,
+    message: string,
+    options?: { recoverable?: boolean; details?: Record<string, unknown> }
+  ) {
+    super(message);
+    this.name = 'AgentError';
+    this.code = code;
+    this.recoverable = options?.recoverable ?? false;
+    this.details = options?.details;
+  }
+}
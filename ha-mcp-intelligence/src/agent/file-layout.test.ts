@@ -0,0 +1,71 @@
+import { readFile, readdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { backupPath } from './atomic-file.js';
+import { ulid } from './ulid.js';
+import { createAgentHarness } from '../testing/agent-harness.js';
+import type { AgentHarness } from '../testing/agent-harness.js';
+
+describe('FileLayout recovery', () => {
+  let harness: AgentHarness;
+
+  beforeEach(async () => {
+    harness = await createAgentHarness();
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it('restores a corrupt session.json from its newest valid backup', async () => {
+    const { store } = harness;
+    const session = await harness.sessions.createSession();
+    await harness.sessions.addFact(session.id, { fact: 'The porch light is on a timer' });
+    const file = store.getSessionFile(session.id);
+    await writeFile(file, '{"checksum": "trunc');
+
+    const restored = await store.readSession(session.id);
+
+    expect(restored?.id).toBe(session.id);
+    expect(restored?.memory.facts).toEqual([]); // The generation before the fact was added
+    expect(await readFile(file, 'utf8')).toBe(await readFile(backupPath(file, 1), 'utf8'));
+    expect(await readdir(store.getQuarantinePath())).toEqual([expect.stringMatching(/^.+\.session\.json\.\d+$/)]);
+  });
+
+  it('throws CORRUPT_FILE when no generation is valid', async () => {
+    const { store } = harness;
+    const session = await harness.sessions.createSession();
+    await writeFile(store.getSessionFile(session.id), 'not json');
+
+    await expect(store.readSession(session.id)).rejects.toMatchObject({ code: 'CORRUPT_FILE' });
+  });
+
+  it('quarantines a corrupt continuation and reports it missing', async () => {
+    const { store } = harness;
+    const session = await harness.sessions.createSession();
+    const continuationId = ulid();
+    await writeFile(store.getTurnFile(session.id, continuationId), '{"checksum": "x", "data": {}}');
+
+    expect(await store.readContinuation(session.id, continuationId)).toBeNull();
+    expect(await readdir(store.getQuarantinePath())).toEqual([
+      expect.stringMatching(new RegExp(`^${session.id}\\.${continuationId}\\.json\\.\\d+$`)),
+    ]);
+  });
+
+  it('rejects IDs that would resolve outside the data directories', async () => {
+    const { store } = harness;
+    const session = await harness.sessions.createSession();
+    const outside = join(harness.dataPath, 'options.json');
+    await writeFile(outside, 'not json');
+
+    for (const read of [
+      () => store.readContinuation(session.id, '../../../options'),
+      () => store.readStepLog(session.id, '../../../options'),
+      () => store.readSession('../options'),
+      () => store.readContinuation('..', 'options'),
+    ]) {
+      await expect(read()).rejects.toMatchObject({ code: 'INVALID_ID' });
+    }
+    expect(await readFile(outside, 'utf8')).toBe('not json');
+    await expect(readdir(store.getQuarantinePath())).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+});
@@ -4,19 +4,51 @@
  * Structure:
  * /data/
  * ├── sessions/{sessionId}/
- * │   ├── session.json
+ * │   ├── session.json (+ session.json.bak.1..N, previous generations)
  * │   ├── turns/{contId}.json
  * │   └── logs/{contId}.log
  * ├── artifacts/{artifactId}
- * └── index/meta.json
+ * ├── archive/{sessionId}.json.gz
+ * ├── quarantine/ (corrupt files and unreadable sessions)
+ * └── index/
+ *     ├── meta.json
+ *     └── idempotency/{sessionId}.json
+ *
+ * Session and turn records are written atomically and carry a checksum and schema
+ * version; older records are upgraded on read. A corrupt session.json is replaced
+ * by its newest valid backup generation. Session and continuation IDs reach these
+ * paths from callers, so anything but a ULID is rejected with INVALID_ID.
+ *
+ * This is the default AgentStore backend ('files'); see SqliteStore for the other.
  */
 
-import { join } from 'path';
-import { mkdir, readFile, writeFile, readdir } from 'fs/promises';
-import type { AgentSession, Continuation } from './types.js';
+import { basename, dirname, join, resolve } from 'path';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import { mkdir, readFile, readdir, rename, rm, stat, unlink } from 'fs/promises';
+import { AgentError } from './errors.js';
+import { backupPath, parseRecord, serializeRecord, writeFileAtomic } from './atomic-file.js';
+import { SCHEMA_VERSION, SchemaMigrator, isMigrationFailure } from './schema-migrations.js';
+import type { MigrationReport } from './schema-migrations.js';
+import type { ParsedRecord } from './atomic-file.js';
+import { StepLogger } from './step-logger.js';
+import { matchesContinuationQuery, sortAndPage } from './continuation-query.js';
+import { isValidUlid } from './ulid.js';
+import { DEFAULTS } from './types.js';
+import type {
+  AgentSession,
+  AgentStore,
+  Continuation,
+  ContinuationQuery,
+  PruneResult,
+  StepLogEntry,
+  StepLogWriter,
+} from './types.js';
 
-export class FileLayout {
+export class FileLayout implements AgentStore {
+  readonly backend = 'files' as const;
   private dataPath: string;
+  private migrator = new SchemaMigrator();
 
   constructor(dataPath: string) {
     this.dataPath = dataPath;
@@ -38,7 +70,7 @@ export class FileLayout {
   }
 
   getSessionPath(sessionId: string): string {
-    return join(this.getSessionsPath(), sessionId);
+    return this.entryPath(this.getSessionsPath(), sessionId, '');
   }
 
   getSessionFile(sessionId: string): string {
@@ -50,7 +82,7 @@ export class FileLayout {
   }
 
   getTurnFile(sessionId: string, continuationId: string): string {
-    return join(this.getTurnsPath(sessionId), `${continuationId}.json`);
+    return this.entryPath(this.getTurnsPath(sessionId), continuationId, '.json');
   }
 
   getLogsPath(sessionId: string): string {
@@ -58,17 +90,45 @@ export class FileLayout {
   }
 
   getLogFile(sessionId: string, continuationId: string): string {
-    return join(this.getLogsPath(sessionId), `${continuationId}.log`);
+    return this.entryPath(this.getLogsPath(sessionId), continuationId, '.log');
   }
 
   getArtifactsPath(): string {
     return join(this.dataPath, 'artifacts');
   }
 
+  getArchivePath(): string {
+    return join(this.dataPath, 'archive');
+  }
+
+  getArchiveFile(sessionId: string): string {
+    return this.entryPath(this.getArchivePath(), sessionId, '.json.gz');
+  }
+
+  getQuarantinePath(): string {
+    return join(this.dataPath, 'quarantine');
+  }
+
   getIndexPath(): string {
     return join(this.dataPath, 'index');
   }
 
+  getIdempotencyFile(sessionId: string): string {
+    return this.entryPath(join(this.getIndexPath(), 'idempotency'), sessionId, '.json');
+  }
+
+  /**
+   * Path of the entry named after a record ID directly inside dir
+   * Throws INVALID_ID for anything but a ULID, so an ID like '../../options' cannot leave dir.
+   */
+  private entryPath(dir: string, id: string, extension: string): string {
+    const path = join(dir, `${id}${extension}`);
+    if (!isValidUlid(id) || resolve(dirname(path)) !== resolve(dir)) {
+      throw new AgentError('INVALID_ID', `Invalid record ID: ${JSON.stringify(id)}`, { details: { id } });
+    }
+    return path;
+  }
+
   /**
    * Write session metadata
    */
@@ -84,28 +144,69 @@ export class FileLayout {
       openContinuations: Array.from(session.openContinuations),
     };
 
-    await writeFile(this.getSessionFile(session.id), JSON.stringify(serializable, null, 2), 'utf8');
+    await writeFileAtomic(this.getSessionFile(session.id), serializeRecord(serializable, SCHEMA_VERSION), {
+      backups: DEFAULTS.persistence.sessionBackups,
+    });
   }
 
   /**
    * Read session metadata
+   *
+   * If session.json is corrupt it is quarantined and the newest valid backup
+   * generation is restored in its place. Throws CORRUPT_FILE if no generation is valid.
    */
   async readSession(sessionId: string): Promise<AgentSession | null> {
-    try {
-      const content = await readFile(this.getSessionFile(sessionId), 'utf8');
-      const data = JSON.parse(content);
+    const file = this.getSessionFile(sessionId);
+    const candidates = [file];
+    for (let generation = 1; generation <= DEFAULTS.persistence.sessionBackups; generation++) {
+      candidates.push(backupPath(file, generation));
+    }
+
+    let corrupt: AgentError | undefined;
+    for (const candidate of candidates) {
+      let content: string;
+      try {
+        content = await readFile(candidate, 'utf8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue;
+        }
+        throw err;
+      }
+
+      let record: ParsedRecord<AgentSession & { openContinuations: string[] }>;
+      try {
+        record = parseRecord(content, candidate);
+      } catch (err) {
+        corrupt = corrupt ?? (err as AgentError);
+        continue;
+      }
+      const data = this.migrator.upgrade<AgentSession & { openContinuations: string[] }>(
+        'session',
+        sessionId,
+        record.data,
+        record.schemaVersion
+      );
+
+      if (candidate !== file) {
+        console.warn(`Restoring session ${sessionId} from ${basename(candidate)}: ${corrupt?.message ?? 'session.json missing'}`);
+        if (corrupt) {
+          await this.quarantine(file, `${sessionId}.session.json`);
+        }
+        await writeFileAtomic(file, content);
+      }
 
       // Convert Array back to Set
       return {
         ...data,
         openContinuations: new Set(data.openContinuations),
       };
-    } catch (err) {
-      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-        return null;
-      }
-      throw err;
     }
+
+    if (corrupt) {
+      throw corrupt;
+    }
+    return null;
   }
 
   /**
@@ -115,34 +216,92 @@ export class FileLayout {
     const turnsPath = this.getTurnsPath(sessionId);
     await mkdir(turnsPath, { recursive: true });
 
-    await writeFile(
-      this.getTurnFile(sessionId, continuation.id),
-      JSON.stringify(continuation, null, 2),
-      'utf8'
-    );
+    await writeFileAtomic(this.getTurnFile(sessionId, continuation.id), serializeRecord(continuation, SCHEMA_VERSION));
   }
 
   /**
    * Read continuation record
+   * A corrupt record is quarantined and treated as missing; one that cannot be
+   * migrated throws SCHEMA_MIGRATION_FAILED and is left in place.
    */
   async readContinuation(sessionId: string, continuationId: string): Promise<Continuation | null> {
+    const file = this.getTurnFile(sessionId, continuationId);
+
+    let content: string;
     try {
-      const content = await readFile(this.getTurnFile(sessionId, continuationId), 'utf8');
-      return JSON.parse(content);
+      content = await readFile(file, 'utf8');
     } catch (err) {
       if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
         return null;
       }
       throw err;
     }
+
+    let record: ParsedRecord<Continuation>;
+    try {
+      record = parseRecord<Continuation>(content, file);
+    } catch (err) {
+      console.warn(`Quarantining continuation ${continuationId}: ${(err as Error).message}`);
+      await this.quarantine(file, `${sessionId}.${continuationId}.json`);
+      return null;
+    }
+
+    return this.migrator.upgrade<Continuation>('continuation', continuationId, record.data, record.schemaVersion);
+  }
+
+  /**
+   * Write a compressed archive of an ended session
+   */
+  async writeArchive(sessionId: string, archive: unknown): Promise<number> {
+    await mkdir(this.getArchivePath(), { recursive: true });
+
+    const compressed = await promisify(gzip)(Buffer.from(JSON.stringify(archive), 'utf8'));
+    await writeFileAtomic(this.getArchiveFile(sessionId), compressed);
+
+    return compressed.length;
+  }
+
+  /**
+   * Move a session that cannot be read out of the sessions directory
+   */
+  async quarantineSession(sessionId: string): Promise<string> {
+    return await this.quarantine(this.getSessionPath(sessionId), sessionId);
+  }
+
+  /**
+   * Move a session's corrupt idempotency index out of index/
+   */
+  async quarantineIdempotencyFile(sessionId: string): Promise<string> {
+    return await this.quarantine(this.getIdempotencyFile(sessionId), `${sessionId}.idempotency.json`);
+  }
+
+  /**
+   * Move a file or directory into quarantine/ under a timestamped name
+   */
+  private async quarantine(path: string, name: string): Promise<string> {
+    await mkdir(this.getQuarantinePath(), { recursive: true });
+
+    const target = join(this.getQuarantinePath(), `${name}.${Date.now()}`);
+    if (resolve(dirname(target)) !== resolve(this.getQuarantinePath())) {
+      throw new AgentError('INVALID_ID', `Invalid quarantine name: ${JSON.stringify(name)}`);
+    }
+    await rename(path, target);
+    return target;
+  }
+
+  /**
+   * Delete a session directory
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await rm(this.getSessionPath(sessionId), { recursive: true, force: true });
   }
 
   /**
-   * List all session IDs
+   * List all session IDs (entries not named by a ULID are skipped)
    */
   async listSessions(): Promise<string[]> {
     try {
-      return await readdir(this.getSessionsPath());
+      return (await readdir(this.getSessionsPath())).filter(isValidUlid);
     } catch (err) {
       if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
         return [];
@@ -157,7 +316,11 @@ export class FileLayout {
   async listContinuations(sessionId: string): Promise<string[]> {
     try {
       const files = await readdir(this.getTurnsPath(sessionId));
-      return files.map((f) => f.replace('.json', ''));
+      // Skips temp files left by an interrupted write
+      return files
+        .filter((f) => f.endsWith('.json') && !f.startsWith('.'))
+        .map((f) => f.replace('.json', ''))
+        .filter(isValidUlid);
     } catch (err) {
       if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
         return [];
@@ -165,4 +328,102 @@ export class FileLayout {
       throw err;
     }
   }
+
+  /**
+   * Query continuations by session, status and creation time
+   * Reads every matching turn record; there is no index in this backend. Records
+   * that cannot be migrated are skipped.
+   */
+  async queryContinuations(query: ContinuationQuery): Promise<Continuation[]> {
+    const sessionIds = (query.sessionId ? [query.sessionId] : await this.listSessions()).filter(
+      (sessionId) => !query.sessionIds || query.sessionIds.includes(sessionId)
+    );
+    const matches: Continuation[] = [];
+
+    for (const sessionId of sessionIds) {
+      for (const continuationId of await this.listContinuations(sessionId)) {
+        const continuation = await this.readContinuation(sessionId, continuationId).catch((err) => {
+          if (isMigrationFailure(err)) {
+            return null;
+          }
+          throw err;
+        });
+        if (continuation && matchesContinuationQuery(continuation, query)) {
+          matches.push(continuation);
+        }
+      }
+    }
+
+    return sortAndPage(matches, query);
+  }
+
+  /**
+   * Delete turn records and step logs whose file was last modified before cutoff
+   */
+  async pruneContinuations(sessionId: string, cutoff: number, keep: Set<string>): Promise<PruneResult> {
+    const turns = await this.pruneFiles(this.getTurnsPath(sessionId), '.json', cutoff, keep);
+    const logs = await this.pruneFiles(this.getLogsPath(sessionId), '.log', cutoff, keep);
+
+    return { turns: turns.count, logs: logs.count, bytes: turns.bytes + logs.bytes };
+  }
+
+  private async pruneFiles(
+    dir: string,
+    extension: string,
+    cutoff: number,
+    keep: Set<string>
+  ): Promise<{ count: number; bytes: number }> {
+    let files: string[];
+    try {
+      files = await readdir(dir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { count: 0, bytes: 0 };
+      }
+      throw err;
+    }
+
+    let count = 0;
+    let bytes = 0;
+    for (const file of files) {
+      if (!file.endsWith(extension) || file.startsWith('.') || keep.has(file.slice(0, -extension.length))) {
+        continue;
+      }
+
+      const path = join(dir, file);
+      const info = await stat(path);
+      if (info.mtimeMs < cutoff) {
+        await unlink(path);
+        count++;
+        bytes += info.size;
+      }
+    }
+
+    return { count, bytes };
+  }
+
+  /**
+   * Open the NDJSON step log of a continuation for appending
+   */
+  async openStepLog(sessionId: string, continuationId: string): Promise<StepLogWriter> {
+    const stepLogger = new StepLogger({
+      logPath: this.getLogFile(sessionId, continuationId),
+      autoFlush: true,
+      flushIntervalMs: 2000,
+      bufferSize: 5,
+    });
+    await stepLogger.start();
+    return stepLogger;
+  }
+
+  async readStepLog(sessionId: string, continuationId: string): Promise<StepLogEntry[]> {
+    const entries = await StepLogger.readLog(this.getLogFile(sessionId, continuationId));
+    return entries.map((entry, i) =>
+      this.migrator.upgradeStepLogEntry<StepLogEntry>(`${continuationId}#${i}`, entry as unknown as Record<string, unknown>)
+    );
+  }
+
+  getMigrationReport(): MigrationReport {
+    return this.migrator.getReport();
+  }
 }
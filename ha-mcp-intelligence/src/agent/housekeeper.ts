@@ -0,0 +1,225 @@
+/**
+ * Housekeeper - Periodic session expiry, retention pruning and archiving
+ *
+ * Each run expires idle sessions, deletes turn records and step logs older than
+ * the continuation retention, deletes old artifacts (counting orphaned ones) and
+ * compacts ended or expired sessions into archive/{sessionId}.json.gz. The last
+ * run's report is shown in /health.
+ */
+
+import { rm } from 'fs/promises';
+import { DEFAULTS } from './types.js';
+import type { AgentSession, AgentStore, Continuation } from './types.js';
+import type { SessionManager } from './session-manager.js';
+import type { FileLayout } from './file-layout.js';
+import type { ArtifactStore } from './artifact-store.js';
+
+export interface RetentionConfig {
+  sessionIdleDays: number; // Active sessions without activity are expired after this
+  continuationRetentionHours: number; // Turn records and step logs; ended sessions are archived after this
+  artifactRetentionDays: number;
+}
+
+export interface HousekeeperConfig {
+  sessionManager: SessionManager;
+  store: AgentStore;
+  fileLayout: FileLayout; // Archive and idempotency index location, whichever backend is used
+  artifactStore: ArtifactStore;
+  retention?: Partial<RetentionConfig>;
+  intervalMs?: number;
+}
+
+export interface HousekeepingReport {
+  startedAt: number;
+  durationMs: number;
+  sessionsExpired: number;
+  sessionsArchived: number;
+  turnsPruned: number;
+  logsPruned: number;
+  artifactsDeleted: number;
+  orphanedArtifacts: number; // Owning session gone, or file/sidecar missing; left for artifact retention
+  bytesFreed: number;
+  errors: string[];
+}
+
+export interface HousekeepingStatus {
+  intervalMs: number;
+  retention: RetentionConfig;
+  lastRun: HousekeepingReport | null;
+  nextRunAt: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class Housekeeper {
+  private sessionManager: SessionManager;
+  private store: AgentStore;
+  private fileLayout: FileLayout;
+  private artifactStore: ArtifactStore;
+  private retention: RetentionConfig;
+  private intervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private current?: Promise<HousekeepingReport>;
+  private lastReport: HousekeepingReport | null = null;
+  private lastScheduledAt = 0;
+
+  constructor(config: HousekeeperConfig) {
+    this.sessionManager = config.sessionManager;
+    this.store = config.store;
+    this.fileLayout = config.fileLayout;
+    this.artifactStore = config.artifactStore;
+    this.retention = {
+      sessionIdleDays: DEFAULTS.ttl.sessionIdleDays,
+      continuationRetentionHours: DEFAULTS.ttl.continuationRetentionHours,
+      artifactRetentionDays: DEFAULTS.ttl.artifactRetentionDays,
+      ...config.retention,
+    };
+    this.intervalMs = config.intervalMs ?? DEFAULTS.housekeeping.intervalMs;
+  }
+
+  /**
+   * Run now, then every intervalMs
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.lastScheduledAt = Date.now();
+    this.timer = setInterval(() => {
+      this.lastScheduledAt = Date.now();
+      this.runInBackground();
+    }, this.intervalMs);
+    this.timer.unref();
+
+    this.runInBackground();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  getStatus(): HousekeepingStatus {
+    return {
+      intervalMs: this.intervalMs,
+      retention: this.retention,
+      lastRun: this.lastReport,
+      nextRunAt: this.timer ? this.lastScheduledAt + this.intervalMs : null,
+    };
+  }
+
+  /**
+   * Run one pass; a call while a pass is in progress joins it
+   * Failures of individual steps are collected in the report instead of ending the run.
+   */
+  run(): Promise<HousekeepingReport> {
+    if (!this.current) {
+      this.current = this.sweep().finally(() => {
+        this.current = undefined;
+      });
+    }
+    return this.current;
+  }
+
+  private runInBackground(): void {
+    this.run()
+      .then((report) => {
+        if (report.errors.length > 0) {
+          console.warn(`Housekeeping finished with ${report.errors.length} errors:`, report.errors);
+        }
+      })
+      .catch((err) => console.error('Housekeeping failed:', err));
+  }
+
+  private async sweep(): Promise<HousekeepingReport> {
+    const report: HousekeepingReport = {
+      startedAt: Date.now(),
+      durationMs: 0,
+      sessionsExpired: 0,
+      sessionsArchived: 0,
+      turnsPruned: 0,
+      logsPruned: 0,
+      artifactsDeleted: 0,
+      orphanedArtifacts: 0,
+      bytesFreed: 0,
+      errors: [],
+    };
+
+    const attempt = async (label: string, fn: () => Promise<void>): Promise<void> => {
+      try {
+        await fn();
+      } catch (err) {
+        report.errors.push(`${label}: ${(err as Error).message}`);
+      }
+    };
+
+    await attempt('expire sessions', async () => {
+      report.sessionsExpired = await this.sessionManager.cleanup(this.retention.sessionIdleDays);
+    });
+
+    const cutoff = Date.now() - this.retention.continuationRetentionHours * HOUR_MS;
+    for (const session of this.sessionManager.listSessions()) {
+      await attempt(`session ${session.id}`, async () => {
+        if (session.status !== 'active' && session.openContinuations.size === 0 && session.updatedAt < cutoff) {
+          await this.archive(session, report);
+        } else {
+          await this.prune(session, cutoff, report);
+        }
+      });
+    }
+
+    await attempt('artifacts', async () => {
+      const before = await this.artifactStore.getStorageStats();
+      report.artifactsDeleted = await this.artifactStore.cleanup(this.retention.artifactRetentionDays);
+      const after = await this.artifactStore.getStorageStats();
+      report.bytesFreed += before.totalBytes - after.totalBytes;
+
+      const liveSessionIds = new Set(this.sessionManager.listSessions().map((s) => s.id));
+      const orphans = await this.artifactStore.findOrphans(liveSessionIds);
+      report.orphanedArtifacts = orphans.detached.length + orphans.missingContent.length + orphans.untracked.length;
+    });
+
+    report.durationMs = Date.now() - report.startedAt;
+    this.lastReport = report;
+    return report;
+  }
+
+  /**
+   * Delete turn records and step logs of settled continuations last written before cutoff
+   */
+  private async prune(session: AgentSession, cutoff: number, report: HousekeepingReport): Promise<void> {
+    const pruned = await this.store.pruneContinuations(session.id, cutoff, session.openContinuations);
+
+    report.turnsPruned += pruned.turns;
+    report.logsPruned += pruned.logs;
+    report.bytesFreed += pruned.bytes;
+  }
+
+  /**
+   * Write the session and its remaining turn records to the archive, then delete the session
+   * Step logs are not archived. Bytes freed are counted as the uncompressed record size
+   * less the archive size.
+   */
+  private async archive(session: AgentSession, report: HousekeepingReport): Promise<void> {
+    const continuations: Continuation[] = [];
+    for (const continuationId of await this.store.listContinuations(session.id)) {
+      const continuation = await this.store.readContinuation(session.id, continuationId);
+      if (continuation) {
+        continuations.push(continuation);
+      }
+    }
+
+    const archive = {
+      archivedAt: Date.now(),
+      session: { ...session, openContinuations: [] },
+      continuations,
+    };
+    const sizeBefore = Buffer.byteLength(JSON.stringify(archive), 'utf8');
+    const archivedBytes = await this.fileLayout.writeArchive(session.id, archive);
+
+    await this.sessionManager.removeSession(session.id);
+    await rm(this.fileLayout.getIdempotencyFile(session.id), { force: true });
+
+    report.sessionsArchived++;
+    report.bytesFreed += Math.max(0, sizeBefore - archivedBytes);
+  }
+}
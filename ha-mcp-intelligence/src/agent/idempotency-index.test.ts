@@ -0,0 +1,60 @@
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { FileLayout } from './file-layout.js';
+import { IdempotencyIndex } from './idempotency-index.js';
+import { ulid } from './ulid.js';
+
+describe('IdempotencyIndex persistence', () => {
+  let dataPath: string;
+  let layout: FileLayout;
+  const sessionId = ulid();
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'ha-agent-test-'));
+    layout = new FileLayout(dataPath);
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  const claim = (index: IdempotencyIndex, id: string) =>
+    index.claim(sessionId, 'key-1', { message: 'hi' }, async () => id);
+
+  async function writeIndexFile(content: string) {
+    const file = layout.getIdempotencyFile(sessionId);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, content);
+  }
+
+  it('stores keys as a checksummed record', async () => {
+    await claim(new IdempotencyIndex(layout), 'cont-1');
+
+    const stored = JSON.parse(await readFile(layout.getIdempotencyFile(sessionId), 'utf8'));
+    expect(stored).toMatchObject({ checksum: expect.any(String), data: { 'key-1': { continuationId: 'cont-1' } } });
+    expect(await claim(new IdempotencyIndex(layout), 'cont-2')).toEqual({ continuationId: 'cont-1', replayed: true });
+  });
+
+  it('still reads indexes written as plain JSON', async () => {
+    await claim(new IdempotencyIndex(layout), 'cont-1');
+    const { data } = JSON.parse(await readFile(layout.getIdempotencyFile(sessionId), 'utf8'));
+    await writeIndexFile(JSON.stringify(data));
+
+    expect(await claim(new IdempotencyIndex(layout), 'cont-2')).toEqual({ continuationId: 'cont-1', replayed: true });
+  });
+
+  it.each([
+    ['malformed JSON', '{"key-1": {'],
+    ['a failed checksum', JSON.stringify({ checksum: 'bad', data: {} })],
+  ])('quarantines an index with %s and starts over', async (_, content) => {
+    await writeIndexFile(content);
+
+    expect(await claim(new IdempotencyIndex(layout), 'cont-2')).toEqual({ continuationId: 'cont-2', replayed: false });
+
+    const quarantined = await readdir(layout.getQuarantinePath());
+    const name = new RegExp(`^${sessionId}\\.idempotency\\.json\\.\\d+$`);
+    expect(quarantined).toEqual([expect.stringMatching(name)]);
+    expect(await readFile(join(layout.getQuarantinePath(), quarantined[0]), 'utf8')).toBe(content);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * IdempotencyIndex - Deduplicates send_message retries by idempotency key
+ *
+ * One JSON file per session under index/idempotency/ maps each key to the
+ * continuation it created and a hash of the request payload. Entries expire
+ * after the retention window. Files are checksummed like session records; a
+ * corrupt one is quarantined and the session starts over with no known keys.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import { AgentError } from './errors.js';
+import { parseRecord, serializeRecord, writeFileAtomic } from './atomic-file.js';
+import { FileLayout } from './file-layout.js';
+import { DEFAULTS } from './types.js';
+
+interface IdempotencyEntry {
+  continuationId: string;
+  payloadHash: string;
+  createdAt: number;
+}
+
+type SessionIndex = Record<string, IdempotencyEntry>;
+
+export interface IdempotencyResult {
+  continuationId: string;
+  replayed: boolean; // True if the key was seen before and the original continuation is returned
+}
+
+/**
+ * Stable JSON (sorted object keys) so equal payloads hash equally
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export class IdempotencyIndex {
+  private fileLayout: FileLayout;
+  private retentionMs: number;
+  private cache = new Map<string, SessionIndex>();
+  private locks = new Map<string, Promise<unknown>>(); // Per-session serialization of claims
+
+  constructor(fileLayout: FileLayout, retentionMs: number = DEFAULTS.ttl.idempotencyHours * 60 * 60 * 1000) {
+    this.fileLayout = fileLayout;
+    this.retentionMs = retentionMs;
+  }
+
+  /**
+   * Return the continuation previously created for key, or create one
+   *
+   * Claims for one session run one at a time, so concurrent retries cannot both
+   * create a continuation. Throws IDEMPOTENCY_CONFLICT if the key was used with a
+   * different payload.
+   */
+  async claim(
+    sessionId: string,
+    key: string,
+    payload: unknown,
+    create: () => Promise<string>
+  ): Promise<IdempotencyResult> {
+    const previous = this.locks.get(sessionId) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => this.claimLocked(sessionId, key, payload, create));
+
+    this.locks.set(sessionId, run);
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(sessionId) === run) {
+        this.locks.delete(sessionId);
+      }
+    }
+  }
+
+  private async claimLocked(
+    sessionId: string,
+    key: string,
+    payload: unknown,
+    create: () => Promise<string>
+  ): Promise<IdempotencyResult> {
+    const index = await this.load(sessionId);
+    const payloadHash = createHash('sha256').update(canonicalize(payload), 'utf8').digest('hex');
+    const existing = index[key];
+
+    if (existing && Date.now() - existing.createdAt < this.retentionMs) {
+      if (existing.payloadHash !== payloadHash) {
+        throw new AgentError(
+          'IDEMPOTENCY_CONFLICT',
+          `Idempotency key "${key}" was already used with a different request in session ${sessionId}`,
+          { details: { idempotencyKey: key, continuationId: existing.continuationId } }
+        );
+      }
+      return { continuationId: existing.continuationId, replayed: true };
+    }
+
+    const continuationId = await create();
+    index[key] = { continuationId, payloadHash, createdAt: Date.now() };
+    await this.save(sessionId, index);
+
+    return { continuationId, replayed: false };
+  }
+
+  private async load(sessionId: string): Promise<SessionIndex> {
+    const cached = this.cache.get(sessionId);
+    if (cached) {
+      return cached;
+    }
+
+    const file = this.fileLayout.getIdempotencyFile(sessionId);
+    let index: SessionIndex = {};
+    try {
+      index = parseRecord<SessionIndex>(await readFile(file, 'utf8'), file).data;
+    } catch (err) {
+      if (err instanceof AgentError && err.code === 'CORRUPT_FILE') {
+        console.warn(`Quarantining idempotency index of session ${sessionId}: ${err.message}`);
+        await this.fileLayout.quarantineIdempotencyFile(sessionId);
+      } else if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw err;
+      }
+    }
+
+    this.cache.set(sessionId, index);
+    return index;
+  }
+
+  /**
+   * Persist a session's index, dropping expired keys
+   */
+  private async save(sessionId: string, index: SessionIndex): Promise<void> {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [key, entry] of Object.entries(index)) {
+      if (entry.createdAt < cutoff) {
+        delete index[key];
+      }
+    }
+
+    const file = this.fileLayout.getIdempotencyFile(sessionId);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFileAtomic(file, serializeRecord(index));
+  }
+}
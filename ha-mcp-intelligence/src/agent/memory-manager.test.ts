@@ -0,0 +1,44 @@
+import { MemoryManager } from './memory-manager.js';
+import { ProviderRegistry } from './providers/provider-registry.js';
+import type { TurnMessage } from './types.js';
+import { createAgentHarness } from '../testing/agent-harness.js';
+import type { AgentHarness } from '../testing/agent-harness.js';
+
+describe('MemoryManager', () => {
+  let harness: AgentHarness;
+
+  beforeEach(async () => {
+    harness = await createAgentHarness();
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it('falls back to an extractive summary when the model does not answer in time', async () => {
+    const providers = new ProviderRegistry();
+    providers.register(harness.provider);
+    const memory = new MemoryManager({ providers, summaryTimeoutMs: 50 });
+
+    // A model that never replies; only the abort signal ends the call
+    harness.provider.script(
+      (request) =>
+        new Promise((_, reject) => {
+          request.signal?.addEventListener('abort', () => reject(request.signal?.reason));
+        })
+    );
+
+    const session = await harness.sessions.createSession();
+    const evicted: TurnMessage[] = [
+      { role: 'user', content: 'Why is light.kitchen flickering?', timestamp: Date.now() },
+      { role: 'assistant', content: 'The dimmer reports unstable voltage.', timestamp: Date.now() },
+    ];
+
+    await memory.fold(session, evicted);
+
+    expect(harness.provider.requests[0].signal).toBeDefined();
+    expect(session.memory.rollingSummary).toBe(
+      'user: Why is light.kitchen flickering?\nassistant: The dimmer reports unstable voltage.'
+    );
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * MemoryManager - Maintains long-term session memory
+ *
+ * Turns evicted from the lastK window are folded into the rolling summary and
+ * mined for durable key facts by the session's model. buildMemoryContext()
+ * assembles summary, relevant facts, pins and lastK for a new continuation.
+ */
+
+import { ulid } from './ulid.js';
+import { DEFAULTS } from './types.js';
+import type { AgentSession, ChatMessage, KeyFact, SessionMemory, TurnMessage } from './types.js';
+import type { ProviderRegistry } from './providers/provider-registry.js';
+
+export interface MemoryManagerConfig {
+  providers: ProviderRegistry;
+  summaryTokens?: number;
+  summaryTimeoutMs?: number;
+  maxFacts?: number;
+}
+
+export interface MemoryContext {
+  system: string[]; // Summary, facts and pins for the system prompt
+  history: ChatMessage[]; // lastK turns
+}
+
+// Rough token estimate (~4 characters per token) used for budgeting prompts
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const ENTITY_ID_PATTERN = /\b[a-z_]+\.[a-z0-9_]+\b/g;
+const WORD_PATTERN = /[a-z0-9_]{4,}/g;
+
+const SUMMARIZER_PROMPT = [
+  'You maintain the long-term memory of a Home Assistant diagnostics conversation.',
+  'Given the current summary and the turns that are leaving the short-term window, reply with JSON only:',
+  '{"summary": string, "facts": [{"fact": string, "confidence": number, "relevance": string[]}]}',
+  '"summary" replaces the current summary: keep what still matters, add the new turns, stay under {tokens} tokens.',
+  '"facts" are new durable facts about this home (devices, entities, user preferences, known issues) that will stay true;',
+  'confidence is 0-1, relevance lists lowercase tags such as entity IDs, domains, areas or topics. Use [] if there are none.',
+].join('\n');
+
+function tokenize(text: string): Set<string> {
+  const lower = text.toLowerCase();
+  const tokens = new Set<string>(lower.match(WORD_PATTERN) || []);
+  for (const entityId of lower.match(ENTITY_ID_PATTERN) || []) {
+    tokens.add(entityId);
+    tokens.add(entityId.split('.')[0]);
+  }
+  return tokens;
+}
+
+function normalizeFact(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').replace(/[.!]+$/, '').trim();
+}
+
+/**
+ * Drop whole lines from the start until the text fits the token budget
+ */
+function trimToTokens(text: string, maxTokens: number): string {
+  const lines = text.split('\n');
+  while (lines.length > 1 && estimateTokens(lines.join('\n')) > maxTokens) {
+    lines.shift();
+  }
+  return lines.join('\n').slice(-maxTokens * 4);
+}
+
+export class MemoryManager {
+  private providers: ProviderRegistry;
+  private summaryTokens: number;
+  private summaryTimeoutMs: number;
+  private maxFacts: number;
+
+  constructor(config: MemoryManagerConfig) {
+    this.providers = config.providers;
+    this.summaryTokens = config.summaryTokens ?? DEFAULTS.memory.summaryTokens;
+    this.summaryTimeoutMs = config.summaryTimeoutMs ?? DEFAULTS.memory.summaryTimeoutMs;
+    this.maxFacts = config.maxFacts ?? DEFAULTS.memory.maxFacts;
+  }
+
+  /**
+   * Fold turns evicted from lastK into the rolling summary and key facts
+   * Falls back to an extractive summary if the model is unavailable, too slow or replies badly.
+   */
+  async fold(session: AgentSession, evicted: TurnMessage[]): Promise<void> {
+    const turns = evicted.filter((t) => t.role !== 'system' && t.content.trim());
+    if (turns.length === 0) {
+      return;
+    }
+
+    const memory = session.memory;
+    try {
+      const update = await this.summarize(session, turns);
+      memory.rollingSummary = trimToTokens(update.summary, this.summaryTokens);
+      this.mergeFacts(memory, update.facts);
+    } catch (err) {
+      console.warn(`Memory summarization failed for session ${session.id}, using extractive summary:`, (err as Error).message);
+      const lines = turns.map((t) => `${t.role}: ${t.content.replace(/\s+/g, ' ').substring(0, 300)}`);
+      memory.rollingSummary = trimToTokens([memory.rollingSummary, ...lines].filter(Boolean).join('\n'), this.summaryTokens);
+    }
+  }
+
+  /**
+   * Ask the session's model for an updated summary and new facts
+   */
+  private async summarize(
+    session: AgentSession,
+    turns: TurnMessage[]
+  ): Promise<{ summary: string; facts: Array<Pick<KeyFact, 'fact' | 'confidence' | 'relevance'>> }> {
+    const provider = this.providers.resolve(session.model);
+    const reply = await provider.chat({
+      model: session.model,
+      messages: [
+        { role: 'system', content: SUMMARIZER_PROMPT.replace('{tokens}', String(this.summaryTokens)) },
+        {
+          role: 'user',
+          content: JSON.stringify({
+            currentSummary: session.memory.rollingSummary,
+            knownFacts: session.memory.facts.map((f) => f.fact),
+            evictedTurns: turns.map((t) => ({ role: t.role, content: t.content })),
+          }),
+        },
+      ],
+      signal: AbortSignal.timeout(this.summaryTimeoutMs),
+    });
+
+    const json = reply.content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '');
+    const parsed = JSON.parse(json) as { summary?: unknown; facts?: unknown };
+    if (typeof parsed.summary !== 'string') {
+      throw new Error('Summary missing from model reply');
+    }
+
+    const facts = (Array.isArray(parsed.facts) ? parsed.facts : [])
+      .filter((f): f is Record<string, unknown> => !!f && typeof f === 'object' && typeof f.fact === 'string')
+      .map((f) => ({
+        fact: (f.fact as string).trim(),
+        confidence: Math.min(1, Math.max(0, typeof f.confidence === 'number' ? f.confidence : 0.5)),
+        relevance: Array.isArray(f.relevance)
+          ? f.relevance.filter((t): t is string => typeof t === 'string').map((t) => t.toLowerCase())
+          : [],
+      }));
+
+    return { summary: parsed.summary, facts };
+  }
+
+  /**
+   * Add new facts, replacing restatements of known ones, and keep the most confident maxFacts
+   */
+  private mergeFacts(memory: SessionMemory, facts: Array<Pick<KeyFact, 'fact' | 'confidence' | 'relevance'>>): void {
+    const now = Date.now();
+
+    for (const candidate of facts) {
+      if (!candidate.fact) continue;
+
+      const existing = memory.facts.find((f) => normalizeFact(f.fact) === normalizeFact(candidate.fact));
+      if (existing) {
+        existing.confidence = Math.max(existing.confidence, candidate.confidence);
+        existing.relevance = Array.from(new Set([...existing.relevance, ...candidate.relevance]));
+        existing.extractedAt = now;
+        continue;
+      }
+
+      memory.facts.push({ id: ulid(), extractedAt: now, ...candidate });
+    }
+
+    if (memory.facts.length > this.maxFacts) {
+      memory.facts = memory.facts
+        .sort((a, b) => b.confidence - a.confidence || b.extractedAt - a.extractedAt)
+        .slice(0, this.maxFacts);
+    }
+  }
+}
+
+/**
+ * Assemble session memory for a continuation's prompt
+ *
+ * Facts are ranked by how many of their relevance tags (and entity IDs) the
+ * message mentions, then by confidence; facts the message does not touch are
+ * only included when they are near-certain. Turns of the current continuation
+ * (its own user message) are left out of the history.
+ */
+export function buildMemoryContext(
+  memory: SessionMemory,
+  message: string,
+  continuationId?: string,
+  maxFacts: number = DEFAULTS.memory.contextFacts
+): MemoryContext {
+  const system: string[] = [];
+
+  if (memory.rollingSummary) {
+    system.push(`Summary of the earlier conversation:\n${memory.rollingSummary}`);
+  }
+
+  const query = tokenize(message);
+  const facts = memory.facts
+    .map((fact) => {
+      const tags = new Set([...fact.relevance, ...tokenize(fact.fact)]);
+      const matches = Array.from(tags).filter((t) => query.has(t)).length;
+      return { fact, matches };
+    })
+    .filter(({ fact, matches }) => matches > 0 || fact.confidence >= 0.9)
+    .sort((a, b) => b.matches - a.matches || b.fact.confidence - a.fact.confidence)
+    .slice(0, maxFacts);
+
+  if (facts.length > 0) {
+    system.push(
+      `Known facts:\n${facts.map(({ fact }) => `- ${fact.fact} (confidence ${fact.confidence.toFixed(2)})`).join('\n')}`
+    );
+  }
+
+  if (memory.pins.length > 0) {
+    system.push(`Pinned context (always applies):\n${memory.pins.map((p) => `- ${p.content}`).join('\n')}`);
+  }
+
+  const history: ChatMessage[] = memory.lastK
+    .filter((turn) => turn.role !== 'system' && (!continuationId || turn.continuationId !== continuationId))
+    .map((turn) => ({ role: turn.role, content: turn.content }));
+
+  return { system, history };
+}
@@ -0,0 +1,259 @@
+/**
+ * AnthropicProvider - Claude models via the Anthropic Messages API
+ */
+
+import { readSseEvents, parseToolArguments } from './stream-utils.js';
+import type {
+  ChatMessage,
+  ModelChatRequest,
+  ModelChatResponse,
+  ModelProvider,
+  ModelStreamChunk,
+  ModelToolCall,
+} from '../types.js';
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  baseUrl?: string;
+  apiVersion?: string;
+}
+
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicResponse {
+  content: AnthropicContentBlock[];
+  stop_reason?: string;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: { usage?: { input_tokens: number; output_tokens?: number } };
+  content_block?: { type: string; id?: string; name?: string; text?: string };
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string };
+  usage?: { output_tokens: number };
+  error?: { message: string };
+}
+
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic';
+  private apiKey: string;
+  private baseUrl: string;
+  private apiVersion: string;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || 'https://api.anthropic.com/v1').replace(/\/+$/, '');
+    this.apiVersion = config.apiVersion || '2023-06-01';
+  }
+
+  /**
+   * Send a Messages API request
+   */
+  async chat(request: ModelChatRequest): Promise<ModelChatResponse> {
+    const response = await this.post(request, false);
+    const message = await response.json() as AnthropicResponse;
+
+    let content = '';
+    const toolCalls: ModelToolCall[] = [];
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, arguments: block.input });
+      }
+    }
+
+    return {
+      content,
+      toolCalls,
+      finishReason: message.stop_reason,
+      usage: message.usage && {
+        promptTokens: message.usage.input_tokens,
+        completionTokens: message.usage.output_tokens,
+      },
+    };
+  }
+
+  /**
+   * Stream a Messages API response, yielding text deltas and the assembled response
+   */
+  async* stream(request: ModelChatRequest): AsyncGenerator<ModelStreamChunk> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error('anthropic returned an empty stream');
+    }
+
+    let content = '';
+    let finishReason: string | undefined;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    const blocks = new Map<number, { id: string; name: string; json: string }>();
+
+    for await (const sse of readSseEvents(response.body)) {
+      const event = JSON.parse(sse.data) as AnthropicStreamEvent;
+
+      switch (event.type) {
+        case 'message_start':
+          promptTokens = event.message?.usage?.input_tokens ?? 0;
+          break;
+
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            blocks.set(event.index!, {
+              id: event.content_block.id || '',
+              name: event.content_block.name || '',
+              json: '',
+            });
+          }
+          break;
+
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text;
+            yield { type: 'text', delta: event.delta.text };
+          } else if (event.delta?.type === 'input_json_delta') {
+            const block = blocks.get(event.index!);
+            if (block) block.json += event.delta.partial_json || '';
+          }
+          break;
+
+        case 'message_delta':
+          finishReason = event.delta?.stop_reason ?? finishReason;
+          completionTokens = event.usage?.output_tokens ?? completionTokens;
+          break;
+
+        case 'error':
+          throw new Error(`anthropic stream error: ${event.error?.message || 'unknown'}`);
+      }
+    }
+
+    const toolCalls: ModelToolCall[] = Array.from(blocks.values()).map((block) => ({
+      id: block.id,
+      name: block.name,
+      arguments: parseToolArguments(block.json),
+    }));
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        toolCalls,
+        finishReason,
+        usage: { promptTokens, completionTokens },
+      },
+    };
+  }
+
+  /**
+   * POST a Messages API request and check the HTTP status
+   */
+  private async post(request: ModelChatRequest, stream: boolean): Promise<Response> {
+    if (!this.apiKey) {
+      throw new Error('Anthropic API key is not configured');
+    }
+
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': this.apiVersion,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(this.buildBody(request, stream)),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`anthropic HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Build the request body in Messages API format
+   */
+  private buildBody(request: ModelChatRequest, stream: boolean): Record<string, unknown> {
+    const system = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    const body: Record<string, unknown> = {
+      model: request.model.modelId,
+      max_tokens: request.model.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.model.temperature,
+      messages: this.toWireMessages(request.messages),
+      stream,
+    };
+
+    if (system) {
+      body.system = system;
+    }
+
+    if (request.tools && request.tools.length > 0) {
+      body.tools = request.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.inputSchema,
+      }));
+    }
+
+    return body;
+  }
+
+  /**
+   * Convert chat messages to Messages API format
+   *
+   * Tool results become tool_result blocks on a user turn, and consecutive
+   * turns with the same role are merged since the API requires alternation.
+   */
+  private toWireMessages(messages: ChatMessage[]): AnthropicMessage[] {
+    const wire: AnthropicMessage[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'system') {
+        continue;
+      }
+
+      let role: AnthropicMessage['role'];
+      let blocks: AnthropicContentBlock[];
+
+      if (message.role === 'tool') {
+        role = 'user';
+        blocks = [{ type: 'tool_result', tool_use_id: message.toolCallId || '', content: message.content }];
+      } else if (message.role === 'assistant') {
+        role = 'assistant';
+        blocks = message.content ? [{ type: 'text', text: message.content }] : [];
+        for (const call of message.toolCalls || []) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments ?? {} });
+        }
+      } else {
+        role = 'user';
+        blocks = [{ type: 'text', text: message.content }];
+      }
+
+      const previous = wire[wire.length - 1];
+      if (previous && previous.role === role) {
+        (previous.content as AnthropicContentBlock[]).push(...blocks);
+      } else {
+        wire.push({ role, content: blocks });
+      }
+    }
+
+    return wire;
+  }
+}
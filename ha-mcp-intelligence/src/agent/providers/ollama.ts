@@ -0,0 +1,167 @@
+/**
+ * OllamaProvider - Local models via an Ollama-style /api/chat endpoint
+ */
+
+import { readLines } from './stream-utils.js';
+import type {
+  ChatMessage,
+  ModelChatRequest,
+  ModelChatResponse,
+  ModelProvider,
+  ModelStreamChunk,
+  ModelToolCall,
+} from '../types.js';
+
+export interface OllamaProviderConfig {
+  baseUrl?: string;
+}
+
+interface OllamaChatResponse {
+  message?: {
+    content?: string;
+    tool_calls?: Array<{ function: { name: string; arguments: unknown } }>;
+  };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+export class OllamaProvider implements ModelProvider {
+  readonly name = 'ollama';
+  private baseUrl: string;
+
+  constructor(config: OllamaProviderConfig = {}) {
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+  }
+
+  /**
+   * Send a chat request
+   */
+  async chat(request: ModelChatRequest): Promise<ModelChatResponse> {
+    const response = await this.post(request, false);
+    const result = await response.json() as OllamaChatResponse;
+
+    return this.toResponse(result, result.message?.content || '', this.toToolCalls(result, 0));
+  }
+
+  /**
+   * Stream a chat response (NDJSON), yielding text deltas and the assembled response
+   */
+  async* stream(request: ModelChatRequest): AsyncGenerator<ModelStreamChunk> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error('ollama returned an empty stream');
+    }
+
+    let content = '';
+    const toolCalls: ModelToolCall[] = [];
+    let last: OllamaChatResponse = {};
+
+    for await (const line of readLines(response.body)) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      const chunk = JSON.parse(line) as OllamaChatResponse;
+      if (chunk.error) {
+        throw new Error(`ollama stream error: ${chunk.error}`);
+      }
+
+      if (chunk.message?.content) {
+        content += chunk.message.content;
+        yield { type: 'text', delta: chunk.message.content };
+      }
+
+      toolCalls.push(...this.toToolCalls(chunk, toolCalls.length));
+      last = chunk;
+    }
+
+    yield { type: 'done', response: this.toResponse(last, content, toolCalls) };
+  }
+
+  /**
+   * POST a chat request and check the HTTP status
+   */
+  private async post(request: ModelChatRequest, stream: boolean): Promise<Response> {
+    const body: Record<string, unknown> = {
+      model: request.model.modelId,
+      messages: request.messages.map((m) => this.toWireMessage(m)),
+      stream,
+      options: {
+        temperature: request.model.temperature,
+        num_predict: request.model.maxTokens,
+        num_ctx: request.model.contextWindow,
+      },
+    };
+
+    if (request.tools && request.tools.length > 0) {
+      body.tools = request.tools.map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.inputSchema,
+        },
+      }));
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`ollama HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Convert a chat message to Ollama wire format
+   */
+  private toWireMessage(message: ChatMessage): Record<string, unknown> {
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls.map((call) => ({
+          function: { name: call.name, arguments: call.arguments ?? {} },
+        })),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  }
+
+  /**
+   * Extract tool calls; Ollama does not assign call IDs so synthesize them
+   */
+  private toToolCalls(result: OllamaChatResponse, offset: number): ModelToolCall[] {
+    return (result.message?.tool_calls || []).map((call, i) => ({
+      id: `call_${offset + i}`,
+      name: call.function.name,
+      arguments: call.function.arguments,
+    }));
+  }
+
+  private toResponse(
+    result: OllamaChatResponse,
+    content: string,
+    toolCalls: ModelToolCall[]
+  ): ModelChatResponse {
+    return {
+      content,
+      toolCalls,
+      finishReason: result.done_reason,
+      usage: {
+        promptTokens: result.prompt_eval_count ?? 0,
+        completionTokens: result.eval_count ?? 0,
+      },
+    };
+  }
+}
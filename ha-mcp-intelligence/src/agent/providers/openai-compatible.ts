@@ -0,0 +1,233 @@
+/**
+ * OpenAICompatibleProvider - Chat completions for any endpoint speaking the OpenAI API
+ */
+
+import { readSseEvents, parseToolArguments } from './stream-utils.js';
+import type {
+  ChatMessage,
+  ModelChatRequest,
+  ModelChatResponse,
+  ModelProvider,
+  ModelStreamChunk,
+  ModelToolCall,
+} from '../types.js';
+
+export interface OpenAICompatibleProviderConfig {
+  name?: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIChatCompletion {
+  choices: Array<{
+    message: { content: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason?: string;
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+interface OpenAIChatCompletionChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly name: string;
+  protected baseUrl: string;
+  protected apiKey?: string;
+  protected headers: Record<string, string>;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.name = config.name || 'openai';
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.headers = config.headers || {};
+  }
+
+  /**
+   * Send a chat completion request
+   */
+  async chat(request: ModelChatRequest): Promise<ModelChatResponse> {
+    const response = await this.post(request, false);
+    const completion = await response.json() as OpenAIChatCompletion;
+    const choice = completion.choices[0];
+    if (!choice) {
+      throw new Error(`${this.name} returned no choices`);
+    }
+
+    return {
+      content: choice.message.content || '',
+      toolCalls: (choice.message.tool_calls || []).map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      })),
+      finishReason: choice.finish_reason,
+      usage: completion.usage && {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+      },
+    };
+  }
+
+  /**
+   * Stream a chat completion, yielding text deltas and the assembled response
+   */
+  async* stream(request: ModelChatRequest): AsyncGenerator<ModelStreamChunk> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error(`${this.name} returned an empty stream`);
+    }
+
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: ModelChatResponse['usage'];
+    const partialCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+    for await (const event of readSseEvents(response.body)) {
+      if (event.data === '[DONE]') {
+        break;
+      }
+
+      const chunk = JSON.parse(event.data) as OpenAIChatCompletionChunk;
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+        };
+      }
+
+      const choice = chunk.choices?.[0];
+      if (!choice) {
+        continue;
+      }
+
+      if (choice.delta.content) {
+        content += choice.delta.content;
+        yield { type: 'text', delta: choice.delta.content };
+      }
+
+      for (const fragment of choice.delta.tool_calls || []) {
+        const call = partialCalls[fragment.index] ||= { id: '', name: '', arguments: '' };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+    }
+
+    const toolCalls: ModelToolCall[] = partialCalls
+      .filter((call) => call && call.name)
+      .map((call, i) => ({
+        id: call.id || `call_${i}`,
+        name: call.name,
+        arguments: parseToolArguments(call.arguments),
+      }));
+
+    yield { type: 'done', response: { content, toolCalls, finishReason, usage } };
+  }
+
+  /**
+   * POST a chat completion request and check the HTTP status
+   */
+  protected async post(request: ModelChatRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.headers,
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(this.buildBody(request, stream)),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Build the request body in OpenAI wire format
+   */
+  protected buildBody(request: ModelChatRequest, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: request.model.modelId,
+      messages: request.messages.map((m) => this.toWireMessage(m)),
+      temperature: request.model.temperature,
+      max_tokens: request.model.maxTokens,
+    };
+
+    if (stream) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+
+    if (request.tools && request.tools.length > 0) {
+      body.tools = request.tools.map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.inputSchema,
+        },
+      }));
+    }
+
+    return body;
+  }
+
+  /**
+   * Convert a chat message to OpenAI wire format
+   */
+  private toWireMessage(message: ChatMessage): Record<string, unknown> {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        name: message.name,
+        content: message.content,
+      };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments ?? {}) },
+        })),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  }
+}
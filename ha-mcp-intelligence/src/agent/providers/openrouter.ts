@@ -0,0 +1,29 @@
+/**
+ * OpenRouterProvider - OpenAI-compatible provider preconfigured for OpenRouter
+ */
+
+import { OpenAICompatibleProvider } from './openai-compatible.js';
+import type { ModelChatRequest } from '../types.js';
+
+export interface OpenRouterProviderConfig {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  constructor(config: OpenRouterProviderConfig) {
+    super({
+      name: 'openrouter',
+      baseUrl: config.baseUrl || 'https://openrouter.ai/api/v1',
+      apiKey: config.apiKey,
+      headers: { 'X-Title': 'ha-mcp-intelligence' },
+    });
+  }
+
+  protected async post(request: ModelChatRequest, stream: boolean): Promise<Response> {
+    if (!this.apiKey) {
+      throw new Error('OpenRouter API key is not configured');
+    }
+    return super.post(request, stream);
+  }
+}
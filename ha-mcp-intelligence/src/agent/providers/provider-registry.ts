@@ -0,0 +1,82 @@
+/**
+ * ProviderRegistry - Registry of model providers keyed by ModelConfig.provider
+ */
+
+import { AgentError } from '../errors.js';
+import { AnthropicProvider } from './anthropic.js';
+import { OllamaProvider } from './ollama.js';
+import { OpenAICompatibleProvider } from './openai-compatible.js';
+import { OpenRouterProvider } from './openrouter.js';
+import type { ModelConfig, ModelProvider } from '../types.js';
+
+export interface ProviderRegistryConfig {
+  openRouterApiKey?: string;
+  anthropicApiKey?: string;
+  openAIApiKey?: string;
+  openAIBaseUrl?: string;
+  ollamaUrl?: string;
+}
+
+export class ProviderRegistry {
+  private providers = new Map<string, ModelProvider>();
+
+  /**
+   * Register a provider
+   */
+  register(provider: ModelProvider): void {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`Provider ${provider.name} is already registered`);
+    }
+
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Get a provider by name
+   */
+  getProvider(name: string): ModelProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * List all provider names
+   */
+  listProviderNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Resolve the provider for a model configuration
+   */
+  resolve(model: ModelConfig): ModelProvider {
+    const provider = this.providers.get(model.provider);
+    if (!provider) {
+      throw new AgentError(
+        'UNKNOWN_PROVIDER',
+        `Model provider "${model.provider}" is not registered (available: ${this.listProviderNames().join(', ')})`
+      );
+    }
+
+    return provider;
+  }
+}
+
+/**
+ * Create a registry with the built-in providers
+ */
+export function createProviderRegistry(config: ProviderRegistryConfig): ProviderRegistry {
+  const registry = new ProviderRegistry();
+
+  registry.register(new OpenRouterProvider({ apiKey: config.openRouterApiKey || '' }));
+  registry.register(new AnthropicProvider({ apiKey: config.anthropicApiKey || '' }));
+  registry.register(
+    new OpenAICompatibleProvider({
+      name: 'openai',
+      baseUrl: config.openAIBaseUrl || 'https://api.openai.com/v1',
+      apiKey: config.openAIApiKey,
+    })
+  );
+  registry.register(new OllamaProvider({ baseUrl: config.ollamaUrl }));
+
+  return registry;
+}
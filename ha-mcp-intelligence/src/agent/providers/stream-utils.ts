@@ -0,0 +1,94 @@
+/**
+ * Stream helpers for provider HTTP responses (SSE and NDJSON)
+ */
+
+export interface SseEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Read a response body line by line
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        yield buffer.substring(0, newline).replace(/\r$/, '');
+        buffer = buffer.substring(newline + 1);
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.length > 0) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse a Server-Sent Events body into events
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield { event, data: data.join('\n') };
+      }
+      event = undefined;
+      data = [];
+      continue;
+    }
+
+    if (line.startsWith(':')) {
+      continue; // Comment / keep-alive
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.substring(0, colon);
+    const value = colon === -1 ? '' : line.substring(colon + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  if (data.length > 0) {
+    yield { event, data: data.join('\n') };
+  }
+}
+
+/**
+ * Parse tool call arguments, keeping malformed JSON as the raw string
+ */
+export function parseToolArguments(raw: string | undefined): unknown {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // Leave malformed arguments as the raw string so the tool reports a validation error
+    return raw;
+  }
+}
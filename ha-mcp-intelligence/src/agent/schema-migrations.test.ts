@@ -0,0 +1,116 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { serializeRecord } from './atomic-file.js';
+import { FileLayout } from './file-layout.js';
+import { SCHEMA_VERSION, SchemaMigrator } from './schema-migrations.js';
+import { ulid } from './ulid.js';
+import type { AgentSession, Continuation } from './types.js';
+
+describe('SchemaMigrator', () => {
+  it('adds roles to the message refs of a version 0 session', () => {
+    const migrator = new SchemaMigrator();
+    const legacy = {
+      id: 's1',
+      messages: [
+        { continuationId: 'c1', preview: 'Is the porch light on?' },
+        { continuationId: 'c1', preview: 'Yes.' },
+        { continuationId: 'c2', preview: 'Turn it off', role: 'user' },
+      ],
+    };
+
+    const session = migrator.upgrade<{ messages: { role: string }[] }>('session', 's1', legacy, 0);
+
+    expect(session.messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+  });
+
+  it('defaults the step log of a version 0 continuation', () => {
+    expect(new SchemaMigrator().upgrade('continuation', 'c1', { id: 'c1' }, 0)).toEqual({ id: 'c1', stepLog: [] });
+  });
+
+  it('returns current records untouched', () => {
+    const record = { id: 'c1' };
+    expect(new SchemaMigrator().upgrade('continuation', 'c1', record, SCHEMA_VERSION)).toBe(record);
+  });
+
+  it('reports each migrated record once', () => {
+    const migrator = new SchemaMigrator();
+    migrator.upgrade('continuation', 'c1', {}, 0);
+    migrator.upgrade('continuation', 'c1', {}, 0);
+    migrator.upgradeStepLogEntry('c1#0', { ts: 1, type: 'plan', detail: {} });
+
+    expect(migrator.getReport()).toEqual({
+      schemaVersion: SCHEMA_VERSION,
+      migrated: { session: 0, continuation: 1, stepLog: 1 },
+      failed: [],
+    });
+  });
+
+  it('refuses records written by a newer version', () => {
+    const migrator = new SchemaMigrator();
+
+    expect(() => migrator.upgrade('session', 's1', {}, SCHEMA_VERSION + 1)).toThrow(
+      expect.objectContaining({ code: 'SCHEMA_MIGRATION_FAILED' })
+    );
+    expect(migrator.getReport().failed).toEqual([
+      { kind: 'session', id: 's1', fromVersion: SCHEMA_VERSION + 1, error: expect.stringContaining('newer') },
+    ]);
+  });
+
+  it('records a migration that throws', () => {
+    const migrator = new SchemaMigrator([
+      {
+        kind: 'continuation',
+        version: 1,
+        description: 'Always fails',
+        up() {
+          throw new Error('bad record');
+        },
+      },
+    ]);
+
+    expect(() => migrator.upgrade('continuation', 'c1', {}, 0)).toThrow('Cannot read continuation c1: bad record');
+    expect(migrator.getReport().failed).toHaveLength(1);
+  });
+});
+
+describe('FileLayout legacy records', () => {
+  let dataPath: string;
+  let layout: FileLayout;
+  const sessionId = ulid();
+  const continuationId = ulid();
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'ha-agent-test-'));
+    layout = new FileLayout(dataPath);
+    await layout.init();
+    await mkdir(layout.getTurnsPath(sessionId), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('upgrades plain JSON records written before schema versioning', async () => {
+    await writeFile(
+      layout.getSessionFile(sessionId),
+      JSON.stringify({ id: sessionId, openContinuations: [], messages: [{ continuationId, preview: 'hi' }] })
+    );
+    await writeFile(layout.getTurnFile(sessionId, continuationId), JSON.stringify({ id: continuationId, sessionId }));
+
+    const session = (await layout.readSession(sessionId)) as AgentSession;
+    const continuation = (await layout.readContinuation(sessionId, continuationId)) as Continuation;
+
+    expect(session.messages[0].role).toBe('user');
+    expect(session.openContinuations).toEqual(new Set());
+    expect(continuation.stepLog).toEqual([]);
+    expect(layout.getMigrationReport().migrated).toMatchObject({ session: 1, continuation: 1 });
+  });
+
+  it('leaves a record from a newer version in place', async () => {
+    await writeFile(layout.getTurnFile(sessionId, continuationId), serializeRecord({ id: continuationId }, SCHEMA_VERSION + 1));
+
+    await expect(layout.readContinuation(sessionId, continuationId)).rejects.toMatchObject({ code: 'SCHEMA_MIGRATION_FAILED' });
+    expect(await layout.listContinuations(sessionId)).toEqual([continuationId]);
+  });
+});
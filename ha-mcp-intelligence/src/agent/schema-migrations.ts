@@ -0,0 +1,138 @@
+/**
+ * Schema versions and migrations for persisted agent records
+ *
+ * Session and continuation records carry the schema version they were written
+ * with in their envelope; step log entries carry it as `schemaVersion`. Records
+ * without one predate versioning and are version 0. On read, a record is passed
+ * through every migration above its version, in order; it is written back in the
+ * current schema the next time it is saved.
+ *
+ * To change a persisted type: bump SCHEMA_VERSION and register a migration for
+ * each record kind whose shape changed.
+ */
+
+import { AgentError } from './errors.js';
+
+export const SCHEMA_VERSION = 1;
+
+export type RecordKind = 'session' | 'continuation' | 'stepLog';
+
+type RawRecord = Record<string, unknown>;
+
+export interface SchemaMigration {
+  kind: RecordKind;
+  version: number; // Schema version the migration produces
+  description: string;
+  up(record: RawRecord): RawRecord;
+}
+
+export interface MigrationFailure {
+  kind: RecordKind;
+  id: string;
+  fromVersion: number;
+  error: string;
+}
+
+export interface MigrationReport {
+  schemaVersion: number;
+  migrated: Record<RecordKind, number>;
+  failed: MigrationFailure[];
+}
+
+const MIGRATIONS: SchemaMigration[] = [
+  {
+    kind: 'session',
+    version: 1,
+    description: 'Add role to message refs (first ref of a continuation is the user message)',
+    up(record) {
+      const seen = new Set<string>();
+      const messages = ((record.messages as RawRecord[] | undefined) ?? []).map((meta) => {
+        const continuationId = meta.continuationId as string;
+        const role = meta.role ?? (seen.has(continuationId) ? 'assistant' : 'user');
+        seen.add(continuationId);
+        return { ...meta, role };
+      });
+      return { ...record, messages };
+    },
+  },
+  {
+    kind: 'continuation',
+    version: 1,
+    description: 'Default missing step log',
+    up(record) {
+      return { ...record, stepLog: record.stepLog ?? [] };
+    },
+  },
+];
+
+export function isMigrationFailure(err: unknown): boolean {
+  return err instanceof AgentError && err.code === 'SCHEMA_MIGRATION_FAILED';
+}
+
+/**
+ * Upgrades records to SCHEMA_VERSION and tracks what it migrated for the startup report
+ * A record read repeatedly is counted once.
+ */
+export class SchemaMigrator {
+  private migrations: SchemaMigration[];
+  private migrated = new Map<RecordKind, Set<string>>();
+  private failed = new Map<string, MigrationFailure>();
+
+  constructor(migrations: SchemaMigration[] = MIGRATIONS) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Upgrade a record written with fromVersion
+   * Throws SCHEMA_MIGRATION_FAILED if a migration fails or the record was written by a
+   * newer version of the add-on; the failure is also recorded in the report.
+   */
+  upgrade<T>(kind: RecordKind, id: string, record: unknown, fromVersion: number): T {
+    if (fromVersion === SCHEMA_VERSION) {
+      return record as T;
+    }
+
+    try {
+      if (fromVersion > SCHEMA_VERSION) {
+        throw new Error(`written with schema version ${fromVersion}, newer than the supported ${SCHEMA_VERSION}`);
+      }
+
+      let upgraded = record as RawRecord;
+      for (const migration of this.migrations) {
+        if (migration.kind === kind && migration.version > fromVersion && migration.version <= SCHEMA_VERSION) {
+          upgraded = migration.up(upgraded);
+        }
+      }
+
+      const ids = this.migrated.get(kind) ?? new Set<string>();
+      this.migrated.set(kind, ids.add(id));
+      return upgraded as T;
+    } catch (err) {
+      const message = (err as Error).message;
+      this.failed.set(`${kind}:${id}`, { kind, id, fromVersion, error: message });
+      throw new AgentError('SCHEMA_MIGRATION_FAILED', `Cannot read ${kind} ${id}: ${message}`, {
+        details: { kind, id, fromVersion, schemaVersion: SCHEMA_VERSION },
+      });
+    }
+  }
+
+  /**
+   * Upgrade a step log entry and drop its version stamp
+   */
+  upgradeStepLogEntry<T>(id: string, entry: RawRecord): T {
+    const { schemaVersion, ...rest } = entry;
+    return this.upgrade<T>('stepLog', id, rest, typeof schemaVersion === 'number' ? schemaVersion : 0);
+  }
+
+  getReport(): MigrationReport {
+    return {
+      schemaVersion: SCHEMA_VERSION,
+      migrated: {
+        session: this.migrated.get('session')?.size ?? 0,
+        continuation: this.migrated.get('continuation')?.size ?? 0,
+        stepLog: this.migrated.get('stepLog')?.size ?? 0,
+      },
+      failed: Array.from(this.failed.values()),
+    };
+  }
+}
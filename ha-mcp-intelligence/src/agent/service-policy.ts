@@ -0,0 +1,84 @@
+/**
+ * Service policy - SessionPolicy allow/deny lists for Home Assistant service calls,
+ * capped by the operator's PolicyCeiling
+ */
+
+import { AgentError } from './errors.js';
+import type { PolicyCeiling, SessionPolicy } from './types.js';
+
+/**
+ * Match a service (domain.service) against a list entry: exact, `domain.*` or `*`
+ */
+export function matchesServicePattern(pattern: string, service: string): boolean {
+  if (pattern === '*' || pattern === service) {
+    return true;
+  }
+  if (pattern.endsWith('.*')) {
+    return service.startsWith(pattern.slice(0, -1));
+  }
+  return false;
+}
+
+/**
+ * Narrower of two patterns if one covers the other (`light.*` and `light.turn_on` -> `light.turn_on`)
+ */
+function narrowerPattern(a: string, b: string): string | undefined {
+  const covers = (outer: string, inner: string) =>
+    outer === '*' || outer === inner || (outer.endsWith('.*') && inner.startsWith(outer.slice(0, -1)));
+
+  if (covers(a, b)) return b;
+  if (covers(b, a)) return a;
+  return undefined;
+}
+
+/**
+ * Cap a requested session policy at the operator's ceiling
+ *
+ * Actuation is only kept if the ceiling allows it for the caller (admin: an admin or
+ * unauthenticated caller), the allowlist is intersected with the ceiling's, the
+ * ceiling's denylist is added and confirmation can be forced on.
+ */
+export function applyPolicyCeiling(policy: SessionPolicy, ceiling: PolicyCeiling, admin: boolean): SessionPolicy {
+  const actuationAllowed = ceiling.actuation === 'everyone' || (ceiling.actuation === 'admins' && admin);
+
+  const allowlisted = new Set<string>();
+  for (const requested of policy.allowlistedServices || []) {
+    for (const permitted of ceiling.allowlistedServices) {
+      const pattern = narrowerPattern(requested, permitted);
+      if (pattern) allowlisted.add(pattern);
+    }
+  }
+
+  return {
+    ...policy,
+    allowActuation: policy.allowActuation && actuationAllowed,
+    allowlistedServices: Array.from(allowlisted),
+    denylistedServices: Array.from(new Set([...(policy.denylistedServices || []), ...ceiling.denylistedServices])),
+    requireConfirmation: policy.requireConfirmation || ceiling.requireConfirmation,
+  };
+}
+
+/**
+ * Throw unless the session policy permits calling a service
+ *
+ * The denylist wins over the allowlist, and a service must be allowlisted
+ * explicitly (use `*` to allow everything not denylisted).
+ */
+export function checkServicePolicy(policy: SessionPolicy, service: string): void {
+  if (!policy.allowActuation) {
+    throw new AgentError('ACTUATION_DISABLED', 'Session policy disallows actuation');
+  }
+
+  const denied = (policy.denylistedServices || []).find((p) => matchesServicePattern(p, service));
+  if (denied) {
+    throw new AgentError('SERVICE_DENIED', `Service ${service} is denylisted (${denied})`, {
+      details: { service, pattern: denied },
+    });
+  }
+
+  if (!(policy.allowlistedServices || []).some((p) => matchesServicePattern(p, service))) {
+    throw new AgentError('SERVICE_NOT_ALLOWED', `Service ${service} is not allowlisted`, {
+      details: { service },
+    });
+  }
+}
@@ -4,13 +4,22 @@
 
 import { ulid } from './ulid.js';
 import { FileLayout } from './file-layout.js';
+import { AgentError } from './errors.js';
+import { resolveBudgets } from './budget-meter.js';
+import { applyPolicyCeiling } from './service-policy.js';
+import type { MemoryManager } from './memory-manager.js';
 import type {
   AgentSession,
+  AgentStore,
+  ContinuationUsage,
+  KeyFact,
+  PinnedContext,
   SessionMemory,
   SessionStatus,
   ModelConfig,
   Budgets,
   SessionPolicy,
+  PolicyCeiling,
   UserPreferences,
   TurnMessage,
   TurnMessageMeta,
@@ -22,50 +31,62 @@ const defaults = DEFAULTS;
 
 export interface SessionManagerConfig {
   dataPath: string;
+  store?: AgentStore; // Default: FileLayout under dataPath
   defaultModel: ModelConfig;
-  defaultBudgets?: Budgets;
+  defaultBudgets?: Partial<Budgets>; // Over DEFAULTS.budgets
   defaultPolicy?: SessionPolicy;
+  policyCeiling?: PolicyCeiling; // Caps every session's policy (default: DEFAULTS.policyCeiling)
+  memory?: MemoryManager; // Without it, turns evicted from lastK are dropped
 }
 
 export class SessionManager {
-  private fileLayout: FileLayout;
+  private store: AgentStore;
   private sessions = new Map<string, AgentSession>();
   private defaultModel: ModelConfig;
   private defaultBudgets: Budgets;
   private defaultPolicy: SessionPolicy;
+  private policyCeiling: PolicyCeiling;
+  private memory?: MemoryManager;
+  private folds = new Map<string, Promise<void>>(); // Per-session chain of pending memory folds
 
   constructor(config: SessionManagerConfig) {
-    this.fileLayout = new FileLayout(config.dataPath);
+    this.store = config.store ?? new FileLayout(config.dataPath);
     this.defaultModel = config.defaultModel;
-    this.defaultBudgets = config.defaultBudgets || defaults.budgets;
+    this.defaultBudgets = resolveBudgets(defaults.budgets, config.defaultBudgets);
     this.defaultPolicy = config.defaultPolicy || defaults.policy;
+    this.policyCeiling = config.policyCeiling ?? defaults.policyCeiling;
+    this.memory = config.memory;
   }
 
   /**
    * Initialize the session manager
    */
   async init(): Promise<void> {
-    await this.fileLayout.init();
+    await this.store.init();
     await this.loadExistingSessions();
   }
 
   /**
-   * Load existing sessions from disk (crash recovery)
+   * Load existing sessions from the store (crash recovery)
    */
   private async loadExistingSessions(): Promise<void> {
-    const sessionIds = await this.fileLayout.listSessions();
+    const sessionIds = await this.store.listSessions();
     let loadedCount = 0;
     let errorCount = 0;
 
     for (const sessionId of sessionIds) {
       try {
-        const session = await this.fileLayout.readSession(sessionId);
+        const session = await this.store.readSession(sessionId);
         if (session) {
-          // Mark any running/streaming/pending continuations as interrupted
-          if (session.openContinuations.size > 0) {
-            session.status = 'active'; // Keep session active
-            // Note: Continuation status updates would happen in ContinuationRunner
-          }
+          // Continuations a crash left open are marked interrupted (and optionally
+          // resumed) by ContinuationRunner.recoverSession() once the runner exists,
+          // so nothing holds the session lock any more
+          session.locks = { locked: false };
+          // Sessions started with partial budgets before overrides were merged lack some limits
+          session.budgets = { ...this.defaultBudgets, ...session.budgets };
+          // A tightened ceiling applies to existing sessions too (who started them is not
+          // known here, so only actuation: disabled revokes actuation)
+          session.policy = applyPolicyCeiling(session.policy, this.policyCeiling, true);
 
           this.sessions.set(sessionId, session);
           loadedCount++;
@@ -74,7 +95,14 @@ export class SessionManager {
         // Log error but continue loading other sessions
         console.error(`Failed to load session ${sessionId}:`, error);
         errorCount++;
-        // TODO: Consider moving corrupted sessions to a quarantine directory
+
+        // No valid generation left: move it aside so it is not retried on every start
+        if (error instanceof AgentError && error.code === 'CORRUPT_FILE') {
+          await this.store
+            .quarantineSession(sessionId)
+            .then((path) => console.warn(`Quarantined session ${sessionId} to ${path}`))
+            .catch((err) => console.error(`Failed to quarantine session ${sessionId}:`, err));
+        }
       }
     }
 
@@ -87,9 +115,11 @@ export class SessionManager {
    * Create a new session
    */
   async createSession(options?: {
+    ownerId?: string;
     model?: ModelConfig;
-    budgets?: Budgets;
-    policy?: SessionPolicy;
+    budgets?: Partial<Budgets>; // Merged over the default budgets
+    policy?: Partial<SessionPolicy>; // Merged over the default policy, then capped by the ceiling
+    admin?: boolean; // Caller is an admin (or unauthenticated), for the ceiling's actuation rule
     preferences?: UserPreferences;
   }): Promise<AgentSession> {
     const sessionId = ulid();
@@ -100,9 +130,14 @@ export class SessionManager {
       createdAt: now,
       updatedAt: now,
       status: 'active',
+      ownerId: options?.ownerId,
       model: options?.model || this.defaultModel,
-      budgets: options?.budgets || this.defaultBudgets,
-      policy: options?.policy || this.defaultPolicy,
+      budgets: resolveBudgets(this.defaultBudgets, options?.budgets),
+      policy: applyPolicyCeiling(
+        { ...this.defaultPolicy, ...options?.policy },
+        this.policyCeiling,
+        options?.admin ?? false
+      ),
       memory: this.createEmptyMemory(),
       messages: [],
       preferences: options?.preferences,
@@ -180,10 +215,11 @@ export class SessionManager {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    // Add to lastK (ring buffer)
+    // Add to lastK (ring buffer); evicted turns are folded into the rolling summary
     session.memory.lastK.push(message);
-    if (session.memory.lastK.length > defaults.memory.lastK) {
-      session.memory.lastK.shift(); // Remove oldest
+    const evicted = session.memory.lastK.splice(0, Math.max(0, session.memory.lastK.length - defaults.memory.lastK));
+    if (evicted.length > 0) {
+      this.scheduleFold(session, evicted);
     }
 
     // Add metadata reference
@@ -195,6 +231,33 @@ export class SessionManager {
     await this.updateSession(session);
   }
 
+  /**
+   * Fold evicted turns in the background (summarizing calls the model), one fold per session at a time
+   */
+  private scheduleFold(session: AgentSession, evicted: TurnMessage[]): void {
+    const memory = this.memory;
+    if (!memory) {
+      return;
+    }
+
+    const previous = this.folds.get(session.id) || Promise.resolve();
+    const fold = previous
+      .then(async () => {
+        await memory.fold(session, evicted);
+        await this.updateSession(session);
+      })
+      .catch((err) => {
+        console.error(`Failed to fold memory for session ${session.id}:`, err);
+      })
+      .finally(() => {
+        if (this.folds.get(session.id) === fold) {
+          this.folds.delete(session.id);
+        }
+      });
+
+    this.folds.set(session.id, fold);
+  }
+
   /**
    * Update rolling summary
    */
@@ -208,6 +271,117 @@ export class SessionManager {
     await this.updateSession(session);
   }
 
+  /**
+   * Pin a snippet that is included in every continuation's prompt
+   */
+  async addPin(sessionId: string, content: string, reason: string): Promise<PinnedContext> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    if (session.memory.pins.length >= defaults.memory.maxPins) {
+      throw new Error(`Session ${sessionId} already has ${defaults.memory.maxPins} pins`);
+    }
+
+    const pin: PinnedContext = { id: ulid(), content, reason, pinnedAt: Date.now() };
+    session.memory.pins.push(pin);
+
+    await this.updateSession(session);
+    return pin;
+  }
+
+  /**
+   * Remove a pin (returns false if it does not exist)
+   */
+  async removePin(sessionId: string, pinId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const before = session.memory.pins.length;
+    session.memory.pins = session.memory.pins.filter((p) => p.id !== pinId);
+    if (session.memory.pins.length === before) {
+      return false;
+    }
+
+    await this.updateSession(session);
+    return true;
+  }
+
+  /**
+   * Add a key fact stated by the user
+   */
+  async addFact(
+    sessionId: string,
+    fact: { fact: string; confidence?: number; relevance?: string[] }
+  ): Promise<KeyFact> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const keyFact: KeyFact = {
+      id: ulid(),
+      fact: fact.fact,
+      confidence: Math.min(1, Math.max(0, fact.confidence ?? 1)),
+      extractedAt: Date.now(),
+      relevance: (fact.relevance || []).map((t) => t.toLowerCase()),
+    };
+    session.memory.facts.push(keyFact);
+
+    await this.updateSession(session);
+    return keyFact;
+  }
+
+  /**
+   * Remove a key fact (returns false if it does not exist)
+   */
+  async removeFact(sessionId: string, factId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const before = session.memory.facts.length;
+    session.memory.facts = session.memory.facts.filter((f) => f.id !== factId);
+    if (session.memory.facts.length === before) {
+      return false;
+    }
+
+    await this.updateSession(session);
+    return true;
+  }
+
+  /**
+   * Mark a session as busy (a continuation is running)
+   */
+  async lock(sessionId: string, reason: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    session.locks = { locked: true, reason, lockedAt: Date.now() };
+    await this.updateSession(session);
+  }
+
+  /**
+   * Release a session lock
+   */
+  async unlock(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    if (session.locks.locked) {
+      session.locks = { locked: false };
+      await this.updateSession(session);
+    }
+  }
+
   /**
    * Add a continuation to session
    */
@@ -223,6 +397,22 @@ export class SessionManager {
     await this.updateSession(session);
   }
 
+  /**
+   * Add a finished continuation's usage to the session stats
+   */
+  async recordUsage(sessionId: string, usage: ContinuationUsage): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    session.stats.totalSteps += usage.steps;
+    session.stats.totalToolCalls += usage.toolCalls;
+    session.stats.totalTokensEstimate += usage.tokens;
+
+    await this.updateSession(session);
+  }
+
   /**
    * Remove a continuation from session
    */
@@ -252,9 +442,9 @@ export class SessionManager {
   /**
    * Cleanup expired sessions
    */
-  async cleanup(): Promise<number> {
+  async cleanup(idleDays: number = defaults.ttl.sessionIdleDays): Promise<number> {
     const now = Date.now();
-    const idleCutoff = now - defaults.ttl.sessionIdleDays * 24 * 60 * 60 * 1000;
+    const idleCutoff = now - idleDays * 24 * 60 * 60 * 1000;
 
     let cleaned = 0;
     for (const [sessionId, session] of this.sessions.entries()) {
@@ -268,11 +458,27 @@ export class SessionManager {
     return cleaned;
   }
 
+  /**
+   * Remove a session from memory and delete its stored data (after it has been archived)
+   */
+  async removeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (session.status === 'active') {
+      throw new Error(`Session ${sessionId} is still active`);
+    }
+
+    this.sessions.delete(sessionId);
+    await this.store.deleteSession(sessionId);
+  }
+
   /**
    * Persist session to disk
    */
   private async persist(session: AgentSession): Promise<void> {
-    await this.fileLayout.writeSession(session);
+    await this.store.writeSession(session);
   }
 
   /**
@@ -0,0 +1,71 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { SqliteStore } from './sqlite-store.js';
+import type { Continuation } from './types.js';
+
+function continuation(id: string, status: Continuation['status'], createdAt: number, message: string): Continuation {
+  return {
+    id,
+    sessionId: 'session-1',
+    status,
+    createdAt,
+    updatedAt: createdAt,
+    request: { message, allowTools: true, maxSteps: 5, timeBudgetMs: 10_000 },
+    stepLog: [],
+  } as unknown as Continuation;
+}
+
+describe('SqliteStore', () => {
+  let dir: string;
+  let dbPath: string;
+  let store: SqliteStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ha-agent-test-'));
+    dbPath = join(dir, 'agent.db');
+    store = new SqliteStore(dbPath);
+    await store.init();
+
+    await store.writeContinuation('session-1', continuation('c1', 'completed', 1000, 'Turn on the porch light'));
+    await store.writeContinuation('session-1', continuation('c2', 'failed', 2000, 'Lock the front door'));
+    await store.writeContinuation('session-1', continuation('c3', 'completed', 3000, 'Is the porch light on?'));
+  });
+
+  afterEach(async () => {
+    store.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const ids = (found: Continuation[]) => found.map((c) => c.id);
+
+  it('queries continuations by status, time and text', async () => {
+    expect(ids(await store.queryContinuations({ sessionId: 'session-1', status: ['completed'], order: 'desc' }))).toEqual([
+      'c3',
+      'c1',
+    ]);
+    expect(ids(await store.queryContinuations({ createdAfter: 1500, createdBefore: 2500 }))).toEqual(['c2']);
+    expect(ids(await store.queryContinuations({ text: 'PORCH', offset: 1, limit: 1 }))).toEqual(['c3']);
+    expect(ids(await store.queryContinuations({ sessionIds: ['session-1'], limit: 1 }))).toEqual(['c1']);
+    expect(ids(await store.queryContinuations({ sessionIds: ['session-2'] }))).toEqual([]);
+  });
+
+  it('keeps step log entries in the order they were logged', async () => {
+    const log = await store.openStepLog('session-1', 'c1');
+    log.log({ ts: 2, type: 'plan', detail: { text: 'first' } });
+    log.log({ ts: 1, type: 'summary', detail: { text: 'second' } });
+    await log.close();
+
+    expect((await store.readStepLog('session-1', 'c1')).map((e) => e.type)).toEqual(['plan', 'summary']);
+  });
+
+  it('quarantines a continuation that fails its checksum', async () => {
+    const db = new Database(dbPath);
+    db.prepare("UPDATE continuations SET data = replace(data, 'Lock', 'Open') WHERE id = 'c2'").run();
+    db.close();
+
+    expect(await store.readContinuation('session-1', 'c2')).toBeNull();
+    expect(await store.listContinuations('session-1')).toEqual(['c1', 'c3']);
+  });
+});
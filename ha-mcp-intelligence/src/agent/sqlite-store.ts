@@ -0,0 +1,414 @@
+/**
+ * SqliteStore - AgentStore backed by an embedded SQLite database (/data/agent.db)
+ *
+ * Sessions and continuations are stored as checksummed, schema-versioned JSON records next to
+ * indexed columns (session, status, creation time), so continuation queries do
+ * not read every turn. Step log entries are rows, inserted as they are logged.
+ * Corrupt records are moved to the quarantine table. Archives and idempotency indexes are
+ * not stored here: they stay in FileLayout's directories with either backend.
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { AgentError } from './errors.js';
+import { parseRecord, serializeRecord } from './atomic-file.js';
+import type { ParsedRecord } from './atomic-file.js';
+import { SCHEMA_VERSION, SchemaMigrator, isMigrationFailure } from './schema-migrations.js';
+import type { MigrationReport } from './schema-migrations.js';
+import { matchesText, sortAndPage } from './continuation-query.js';
+import type {
+  AgentSession,
+  AgentStore,
+  Continuation,
+  ContinuationQuery,
+  PruneResult,
+  StepLogEntry,
+  StepLogWriter,
+} from './types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS continuations (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    written_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS continuations_session ON continuations (session_id, created_at);
+  CREATE INDEX IF NOT EXISTS continuations_status ON continuations (status, created_at);
+  CREATE INDEX IF NOT EXISTS continuations_created ON continuations (created_at);
+
+  CREATE TABLE IF NOT EXISTS step_logs (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    continuation_id TEXT NOT NULL,
+    ts INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS step_logs_continuation ON step_logs (continuation_id, seq);
+  CREATE INDEX IF NOT EXISTS step_logs_session ON step_logs (session_id);
+
+  CREATE TABLE IF NOT EXISTS quarantine (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    quarantined_at INTEGER NOT NULL,
+    reason TEXT,
+    data TEXT NOT NULL
+  );
+`;
+
+interface RecordRow {
+  id: string;
+  data: string;
+}
+
+/**
+ * Step log writer inserting each entry as it is logged
+ * A failed insert is reported but does not fail the step, as with the NDJSON log.
+ */
+class SqliteStepLog implements StepLogWriter {
+  private insert: Database.Statement;
+  private sessionId: string;
+  private continuationId: string;
+
+  constructor(db: Database.Database, sessionId: string, continuationId: string) {
+    this.insert = db.prepare(
+      'INSERT INTO step_logs (session_id, continuation_id, ts, type, data) VALUES (?, ?, ?, ?, ?)'
+    );
+    this.sessionId = sessionId;
+    this.continuationId = continuationId;
+  }
+
+  log(entry: StepLogEntry): void {
+    try {
+      const data = JSON.stringify({ ...entry, schemaVersion: SCHEMA_VERSION });
+      this.insert.run(this.sessionId, this.continuationId, entry.ts, entry.type, data);
+    } catch (err) {
+      console.error(`Failed to write step log for ${this.continuationId}:`, err);
+    }
+  }
+
+  async close(): Promise<void> {
+    // Nothing buffered
+  }
+}
+
+export class SqliteStore implements AgentStore {
+  readonly backend = 'sqlite' as const;
+  private dbPath: string;
+  private db?: Database.Database;
+  private migrator = new SchemaMigrator();
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  /**
+   * Open the database and create the schema
+   */
+  async init(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
+    mkdirSync(dirname(this.dbPath), { recursive: true });
+    const db = new Database(this.dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = NORMAL');
+    db.pragma('busy_timeout = 5000');
+    db.exec(SCHEMA);
+    this.db = db;
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  async writeSession(session: AgentSession): Promise<void> {
+    // Convert Set to Array for JSON serialization
+    const serializable = {
+      ...session,
+      openContinuations: Array.from(session.openContinuations),
+    };
+
+    this.database()
+      .prepare(
+        `INSERT INTO sessions (id, status, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET status = excluded.status, updated_at = excluded.updated_at, data = excluded.data`
+      )
+      .run(session.id, session.status, session.createdAt, session.updatedAt, serializeRecord(serializable, SCHEMA_VERSION));
+  }
+
+  /**
+   * Read a session; throws CORRUPT_FILE if its record fails its checksum
+   */
+  async readSession(sessionId: string): Promise<AgentSession | null> {
+    const row = this.database().prepare('SELECT id, data FROM sessions WHERE id = ?').get(sessionId) as
+      | RecordRow
+      | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const record = parseRecord(row.data, this.recordName('session', sessionId));
+    const data = this.migrator.upgrade<AgentSession & { openContinuations: string[] }>(
+      'session',
+      sessionId,
+      record.data,
+      record.schemaVersion
+    );
+    return {
+      ...data,
+      openContinuations: new Set(data.openContinuations),
+    };
+  }
+
+  async listSessions(): Promise<string[]> {
+    const rows = this.database().prepare('SELECT id FROM sessions ORDER BY id').all() as { id: string }[];
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Delete a session with its continuations and step logs
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    const db = this.database();
+    db.transaction(() => {
+      db.prepare('DELETE FROM step_logs WHERE session_id = ?').run(sessionId);
+      db.prepare('DELETE FROM continuations WHERE session_id = ?').run(sessionId);
+      db.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId);
+    })();
+  }
+
+  /**
+   * Move a session that cannot be read, with its continuations, into the quarantine table
+   */
+  async quarantineSession(sessionId: string): Promise<string> {
+    const db = this.database();
+    const session = db.prepare('SELECT data FROM sessions WHERE id = ?').get(sessionId) as { data: string } | undefined;
+    const continuations = db
+      .prepare('SELECT data FROM continuations WHERE session_id = ? ORDER BY created_at')
+      .all(sessionId) as { data: string }[];
+
+    const id = db.transaction(() => {
+      const result = db
+        .prepare('INSERT INTO quarantine (kind, record_id, quarantined_at, reason, data) VALUES (?, ?, ?, ?, ?)')
+        .run(
+          'session',
+          sessionId,
+          Date.now(),
+          'unreadable session',
+          JSON.stringify({ session: session?.data ?? null, continuations: continuations.map((c) => c.data) })
+        );
+      db.prepare('DELETE FROM step_logs WHERE session_id = ?').run(sessionId);
+      db.prepare('DELETE FROM continuations WHERE session_id = ?').run(sessionId);
+      db.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId);
+      return result.lastInsertRowid;
+    })();
+
+    return `${this.dbPath}#quarantine/${id}`;
+  }
+
+  async writeContinuation(sessionId: string, continuation: Continuation): Promise<void> {
+    this.database()
+      .prepare(
+        `INSERT INTO continuations (id, session_id, status, created_at, written_at, data) VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET status = excluded.status, written_at = excluded.written_at, data = excluded.data`
+      )
+      .run(continuation.id, sessionId, continuation.status, continuation.createdAt, Date.now(), serializeRecord(continuation, SCHEMA_VERSION));
+  }
+
+  /**
+   * Read a continuation
+   * A corrupt record is quarantined and treated as missing; one that cannot be
+   * migrated throws SCHEMA_MIGRATION_FAILED.
+   */
+  async readContinuation(sessionId: string, continuationId: string): Promise<Continuation | null> {
+    const row = this.database()
+      .prepare('SELECT id, data FROM continuations WHERE id = ? AND session_id = ?')
+      .get(continuationId, sessionId) as RecordRow | undefined;
+
+    return row ? this.parseContinuation(row) : null;
+  }
+
+  async listContinuations(sessionId: string): Promise<string[]> {
+    const rows = this.database()
+      .prepare('SELECT id FROM continuations WHERE session_id = ? ORDER BY created_at, id')
+      .all(sessionId) as { id: string }[];
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Query continuations using the session, status and creation time indexes
+   * Text search is applied to the decoded records, so it is paged after filtering.
+   */
+  async queryContinuations(query: ContinuationQuery): Promise<Continuation[]> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.sessionId) {
+      where.push('session_id = ?');
+      params.push(query.sessionId);
+    }
+    if (query.sessionIds) {
+      if (query.sessionIds.length === 0) {
+        return [];
+      }
+      where.push(`session_id IN (${query.sessionIds.map(() => '?').join(', ')})`);
+      params.push(...query.sessionIds);
+    }
+    if (query.status) {
+      if (query.status.length === 0) {
+        return [];
+      }
+      where.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+      params.push(...query.status);
+    }
+    if (query.createdAfter !== undefined) {
+      where.push('created_at >= ?');
+      params.push(query.createdAfter);
+    }
+    if (query.createdBefore !== undefined) {
+      where.push('created_at < ?');
+      params.push(query.createdBefore);
+    }
+
+    const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+    let sql = `SELECT id, data FROM continuations${where.length > 0 ? ` WHERE ${where.join(' AND ')}` : ''}`;
+    sql += ` ORDER BY created_at ${direction}, id ${direction}`;
+    if (!query.text) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(query.limit ?? -1, query.offset ?? 0);
+    }
+
+    const rows = this.database().prepare(sql).all(...params) as RecordRow[];
+    const continuations = rows.flatMap((row) => {
+      try {
+        const continuation = this.parseContinuation(row);
+        return continuation ? [continuation] : [];
+      } catch (err) {
+        if (isMigrationFailure(err)) {
+          return []; // Listed in the migration report
+        }
+        throw err;
+      }
+    });
+
+    if (!query.text) {
+      return continuations;
+    }
+    const text = query.text;
+    return sortAndPage(
+      continuations.filter((continuation) => matchesText(continuation, text)),
+      query
+    );
+  }
+
+  /**
+   * Delete continuations last written before cutoff, and step logs whose newest entry is older
+   */
+  async pruneContinuations(sessionId: string, cutoff: number, keep: Set<string>): Promise<PruneResult> {
+    const db = this.database();
+    const kept = Array.from(keep);
+    const notKept = kept.length > 0 ? ` AND id NOT IN (${kept.map(() => '?').join(', ')})` : '';
+
+    return db.transaction((): PruneResult => {
+      const turns = db
+        .prepare(
+          `SELECT COUNT(*) AS count, COALESCE(SUM(LENGTH(data)), 0) AS bytes FROM continuations
+           WHERE session_id = ? AND written_at < ?${notKept}`
+        )
+        .get(sessionId, cutoff, ...kept) as { count: number; bytes: number };
+      db.prepare(`DELETE FROM continuations WHERE session_id = ? AND written_at < ?${notKept}`).run(
+        sessionId,
+        cutoff,
+        ...kept
+      );
+
+      const logs = db
+        .prepare(
+          `SELECT continuation_id AS id, SUM(LENGTH(data)) AS bytes FROM step_logs
+           WHERE session_id = ? GROUP BY continuation_id HAVING MAX(ts) < ?`
+        )
+        .all(sessionId, cutoff) as { id: string; bytes: number }[];
+      const expired = logs.filter((log) => !keep.has(log.id));
+      const deleteLog = db.prepare('DELETE FROM step_logs WHERE continuation_id = ?');
+      for (const log of expired) {
+        deleteLog.run(log.id);
+      }
+
+      return {
+        turns: turns.count,
+        logs: expired.length,
+        bytes: turns.bytes + expired.reduce((sum, log) => sum + log.bytes, 0),
+      };
+    })();
+  }
+
+  async openStepLog(sessionId: string, continuationId: string): Promise<StepLogWriter> {
+    return new SqliteStepLog(this.database(), sessionId, continuationId);
+  }
+
+  async readStepLog(_sessionId: string, continuationId: string): Promise<StepLogEntry[]> {
+    const rows = this.database()
+      .prepare('SELECT seq, data FROM step_logs WHERE continuation_id = ? ORDER BY seq')
+      .all(continuationId) as { seq: number; data: string }[];
+    return rows.map((row) =>
+      this.migrator.upgradeStepLogEntry<StepLogEntry>(`${continuationId}#${row.seq}`, JSON.parse(row.data))
+    );
+  }
+
+  getMigrationReport(): MigrationReport {
+    return this.migrator.getReport();
+  }
+
+  private database(): Database.Database {
+    if (!this.db) {
+      throw new Error('SqliteStore not initialized');
+    }
+    return this.db;
+  }
+
+  private recordName(kind: string, id: string): string {
+    return `${this.dbPath} ${kind} ${id}`;
+  }
+
+  private parseContinuation(row: RecordRow): Continuation | null {
+    let record: ParsedRecord<Continuation>;
+    try {
+      record = parseRecord<Continuation>(row.data, this.recordName('continuation', row.id));
+    } catch (err) {
+      if (!(err instanceof AgentError)) {
+        throw err;
+      }
+      console.warn(`Quarantining continuation ${row.id}: ${err.message}`);
+      const db = this.database();
+      db.transaction(() => {
+        db.prepare('INSERT INTO quarantine (kind, record_id, quarantined_at, reason, data) VALUES (?, ?, ?, ?, ?)').run(
+          'continuation',
+          row.id,
+          Date.now(),
+          err.message,
+          row.data
+        );
+        db.prepare('DELETE FROM continuations WHERE id = ?').run(row.id);
+      })();
+      return null;
+    }
+
+    return this.migrator.upgrade<Continuation>('continuation', row.id, record.data, record.schemaVersion);
+  }
+}
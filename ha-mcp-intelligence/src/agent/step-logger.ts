@@ -4,8 +4,9 @@
  */
 
 import { createWriteStream, WriteStream } from 'fs';
-import { mkdir } from 'fs/promises';
+import { mkdir, readFile, truncate } from 'fs/promises';
 import { dirname } from 'path';
+import { SCHEMA_VERSION } from './schema-migrations.js';
 import type { StepLogEntry } from './types.js';
 
 export interface StepLoggerConfig {
@@ -40,6 +41,9 @@ export class StepLogger {
     const dir = dirname(this.logPath);
     await mkdir(dir, { recursive: true });
 
+    // Appending after a torn line would merge it with the next entry
+    await StepLogger.repairTornTail(this.logPath);
+
     // Create append stream
     this.stream = createWriteStream(this.logPath, {
       flags: 'a', // Append mode
@@ -90,8 +94,8 @@ export class StepLogger {
         return;
       }
 
-      // Write each entry as NDJSON (one JSON object per line)
-      const lines = entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+      // Write each entry as NDJSON (one JSON object per line), stamped with its schema version
+      const lines = entries.map((entry) => JSON.stringify({ ...entry, schemaVersion: SCHEMA_VERSION })).join('\n') + '\n';
 
       this.stream.write(lines, (err) => {
         if (err) {
@@ -140,6 +144,25 @@ export class StepLogger {
     });
   }
 
+  /**
+   * Drop an incomplete last line left by a crash mid-write
+   */
+  private static async repairTornTail(logPath: string): Promise<void> {
+    let content: Buffer;
+    try {
+      content = await readFile(logPath);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw err;
+    }
+
+    if (content.length > 0 && content[content.length - 1] !== 0x0a) {
+      await truncate(logPath, content.lastIndexOf(0x0a) + 1);
+    }
+  }
+
   /**
    * Read all entries from a log file
    */
@@ -148,11 +171,19 @@ export class StepLogger {
 
     try {
       const content = await fs.readFile(logPath, 'utf8');
-      const lines = content.trim().split('\n');
-
-      return lines
-        .filter((line) => line.trim().length > 0)
-        .map((line) => JSON.parse(line) as StepLogEntry);
+      const lines = content.trim().split('\n').filter((line) => line.trim().length > 0);
+
+      return lines.flatMap((line, i) => {
+        try {
+          return [JSON.parse(line) as StepLogEntry];
+        } catch (err) {
+          // A crash mid-write can leave the last line torn; anything earlier is corruption
+          if (i === lines.length - 1) {
+            return [];
+          }
+          throw err;
+        }
+      });
     } catch (err) {
       if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
         return []; // File doesn't exist yet
@@ -0,0 +1,249 @@
+/**
+ * Step log queries and trace export
+ *
+ * Tool calls are paired with their result (or error) by callId, falling back to
+ * the oldest unanswered call of the same tool for entries logged without one, to
+ * compute how long each call took. The same pairing turns a continuation into
+ * OTLP/JSON spans (one root span, one child span per tool call, other steps as
+ * span events) that Jaeger and other OpenTelemetry viewers can import.
+ */
+
+import { createHash } from 'crypto';
+import type { Continuation, StepLogEntry, StepLogType } from './types.js';
+
+export interface StepQuery {
+  types?: StepLogType[];
+  since?: number; // Inclusive, epoch ms
+  until?: number; // Exclusive, epoch ms
+}
+
+export interface StepView extends StepLogEntry {
+  index: number; // Position in the full log
+  callId?: string;
+  durationMs?: number; // On tool_call and its tool_result/error: time between the two
+}
+
+interface ToolCallSpan {
+  call: StepLogEntry;
+  callIndex: number;
+  end?: StepLogEntry;
+  endIndex?: number;
+}
+
+// OTLP/JSON (opentelemetry-proto ExportTraceServiceRequest)
+interface OtlpAttribute {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { boolValue: boolean };
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  events: { timeUnixNano: string; name: string; attributes: OtlpAttribute[] }[];
+  status: { code: number; message?: string };
+}
+
+export interface OtlpTrace {
+  resourceSpans: {
+    resource: { attributes: OtlpAttribute[] };
+    scopeSpans: { scope: { name: string }; spans: OtlpSpan[] }[];
+  }[];
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_UNSET = 0;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+const MAX_ATTRIBUTE_CHARS = 4096;
+
+function detailOf(entry: StepLogEntry): Record<string, unknown> {
+  return entry.detail && typeof entry.detail === 'object' ? (entry.detail as Record<string, unknown>) : {};
+}
+
+/**
+ * Pair each tool_call with the tool_result or error that ended it
+ */
+function pairToolCalls(entries: StepLogEntry[]): ToolCallSpan[] {
+  const spans: ToolCallSpan[] = [];
+  const open: ToolCallSpan[] = [];
+
+  entries.forEach((entry, index) => {
+    const detail = detailOf(entry);
+    if (entry.type === 'tool_call') {
+      const span = { call: entry, callIndex: index };
+      spans.push(span);
+      open.push(span);
+      return;
+    }
+
+    if ((entry.type !== 'tool_result' && entry.type !== 'error') || detail.tool === undefined) {
+      return;
+    }
+
+    const match = open.findIndex((span) => {
+      const call = detailOf(span.call);
+      return detail.callId !== undefined
+        ? call.callId === detail.callId
+        : call.callId === undefined && call.tool === detail.tool;
+    });
+    if (match >= 0) {
+      const [span] = open.splice(match, 1);
+      span.end = entry;
+      span.endIndex = index;
+    }
+  });
+
+  return spans;
+}
+
+/**
+ * Filter a step log by type and time, with tool call durations computed on the full log
+ */
+export function queryStepLog(entries: StepLogEntry[], query: StepQuery = {}): StepView[] {
+  const durations = new Map<number, number>();
+  for (const span of pairToolCalls(entries)) {
+    if (span.end && span.endIndex !== undefined) {
+      const durationMs = span.end.ts - span.call.ts;
+      durations.set(span.callIndex, durationMs);
+      durations.set(span.endIndex, durationMs);
+    }
+  }
+
+  const views: StepView[] = [];
+  entries.forEach((entry, index) => {
+    if (
+      (query.types && !query.types.includes(entry.type)) ||
+      (query.since !== undefined && entry.ts < query.since) ||
+      (query.until !== undefined && entry.ts >= query.until)
+    ) {
+      return;
+    }
+
+    const callId = detailOf(entry).callId;
+    views.push({
+      ...entry,
+      index,
+      ...(typeof callId === 'string' ? { callId } : {}),
+      ...(durations.has(index) ? { durationMs: durations.get(index) } : {}),
+    });
+  });
+
+  return views;
+}
+
+function hexId(seed: string, length: number): string {
+  return createHash('sha256').update(seed, 'utf8').digest('hex').slice(0, length);
+}
+
+function nanos(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+function attribute(key: string, value: unknown): OtlpAttribute | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === 'boolean') {
+    return { key, value: { boolValue: value } };
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return { key, value: { intValue: String(value) } };
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return { key, value: { stringValue: text.length > MAX_ATTRIBUTE_CHARS ? `${text.slice(0, MAX_ATTRIBUTE_CHARS)}…` : text } };
+}
+
+function attributes(values: Record<string, unknown>): OtlpAttribute[] {
+  return Object.entries(values).flatMap(([key, value]) => {
+    const attr = attribute(key, value);
+    return attr ? [attr] : [];
+  });
+}
+
+/**
+ * Export a continuation and its step log as an OTLP/JSON trace
+ * IDs are derived from the continuation ID, so exporting twice gives the same trace.
+ */
+export function toOtlpTrace(continuation: Continuation, entries: StepLogEntry[]): OtlpTrace {
+  const traceId = hexId(continuation.id, 32);
+  const rootSpanId = hexId(`${continuation.id}:root`, 16);
+  const lastTs = entries.length > 0 ? entries[entries.length - 1].ts : continuation.updatedAt;
+  const end = Math.max(continuation.updatedAt, lastTs);
+
+  const toolSpans = pairToolCalls(entries);
+  const inToolSpan = new Set(toolSpans.flatMap((span) => [span.callIndex, span.endIndex ?? -1]));
+
+  const root: OtlpSpan = {
+    traceId,
+    spanId: rootSpanId,
+    name: 'ha_agent.continuation',
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: nanos(continuation.createdAt),
+    endTimeUnixNano: nanos(end),
+    attributes: attributes({
+      'session.id': continuation.sessionId,
+      'continuation.id': continuation.id,
+      'continuation.status': continuation.status,
+      'gen_ai.system': continuation.request.model?.provider,
+      'gen_ai.request.model': continuation.request.model?.modelId,
+      'agent.usage.steps': continuation.usage?.steps,
+      'agent.usage.tool_calls': continuation.usage?.toolCalls,
+      'agent.usage.tokens': continuation.usage?.tokens,
+    }),
+    events: entries.flatMap((entry, index) =>
+      inToolSpan.has(index)
+        ? []
+        : [{ timeUnixNano: nanos(entry.ts), name: entry.type, attributes: attributes({ detail: entry.detail }) }]
+    ),
+    status:
+      continuation.status === 'completed'
+        ? { code: STATUS_OK }
+        : continuation.error
+          ? { code: STATUS_ERROR, message: `${continuation.error.code}: ${continuation.error.message}` }
+          : { code: STATUS_UNSET },
+  };
+
+  const children = toolSpans.map((span): OtlpSpan => {
+    const call = detailOf(span.call);
+    const result = span.end ? detailOf(span.end) : {};
+    const failed = span.end?.type === 'error';
+
+    return {
+      traceId,
+      spanId: hexId(`${continuation.id}:${span.callIndex}`, 16),
+      parentSpanId: rootSpanId,
+      name: `execute_tool ${String(call.tool)}`,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: nanos(span.call.ts),
+      endTimeUnixNano: nanos(span.end?.ts ?? end),
+      attributes: attributes({
+        'gen_ai.tool.name': call.tool,
+        'gen_ai.tool.call.id': call.callId,
+        'tool.args': call.args,
+        'tool.result': failed ? undefined : result.result,
+        'tool.incomplete': span.end ? undefined : true, // No result logged (interrupted or still running)
+      }),
+      events: [],
+      status: failed
+        ? { code: STATUS_ERROR, message: String(result.error) }
+        : span.end
+          ? { code: STATUS_OK }
+          : { code: STATUS_UNSET },
+    };
+  });
+
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: attributes({ 'service.name': 'ha-mcp-intelligence' }) },
+        scopeSpans: [{ scope: { name: 'ha-mcp-intelligence.agent' }, spans: [root, ...children] }],
+      },
+    ],
+  };
+}
@@ -5,6 +5,7 @@
 import type { ToolSpec } from './types';
 import type { DiagnoseEntityTool } from '../tools/diagnose-entity';
 import type { AnalyzeErrorsTool } from '../tools/analyze-errors';
+import type { QueryDependencyGraphTool } from '../tools/query-dependency-graph';
 
 /**
  * Adapt DiagnoseEntityTool to ToolSpec interface
@@ -94,3 +95,37 @@ export function createAnalyzeErrorsAdapter(tool: AnalyzeErrorsTool): ToolSpec {
     },
   };
 }
+
+/**
+ * Adapt QueryDependencyGraphTool to ToolSpec interface
+ */
+export function createQueryDependencyGraphAdapter(tool: QueryDependencyGraphTool): ToolSpec {
+  const definition = tool.getToolDefinition();
+
+  return {
+    name: 'query_dependency_graph',
+    description: definition.description || 'Query the entity dependency graph',
+    inputSchema: definition.inputSchema,
+    outputSchema: {
+      type: 'object',
+      properties: {
+        nodes: { type: 'array', items: { type: 'object' } },
+        edges: { type: 'array', items: { type: 'object' } },
+        path: { type: 'array', items: { type: 'string' } },
+        cycles: { type: 'array', items: { type: 'object' } },
+        renderings: { type: 'array', items: { type: 'object' } },
+      },
+    },
+    invoke: async (args) => {
+      return await tool.execute((args || {}) as Record<string, unknown>);
+    },
+    cost: {
+      estimatedMs: 100,
+      estimatedTokens: 500,
+    },
+    safety: {
+      requiresActuation: false,
+      riskLevel: 'safe',
+    },
+  };
+}
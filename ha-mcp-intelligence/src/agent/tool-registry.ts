@@ -2,7 +2,8 @@
  * ToolRegistry - Registry of tools available to the agent
  */
 
-import type { ToolSpec, ToolInvokeContext } from './types.js';
+import { AgentError } from './errors.js';
+import type { RiskLevel, SessionPolicy, ToolSpec, ToolInvokeContext } from './types.js';
 
 export class ToolRegistry {
   private tools = new Map<string, ToolSpec>();
@@ -68,6 +69,23 @@ export class ToolRegistry {
     });
 
     try {
+      const riskLevel = tool.safety?.assess?.(args, ctx.session.policy) ?? tool.safety?.riskLevel ?? 'safe';
+
+      if (tool.safety?.requiresActuation && this.needsConfirmation(riskLevel, ctx.session.policy)) {
+        if (!ctx.confirm) {
+          throw new AgentError('CONFIRMATION_UNAVAILABLE', `Tool ${name} requires confirmation`);
+        }
+
+        const decision = await ctx.confirm({ tool: name, args, riskLevel });
+        if (decision.expired) {
+          throw new AgentError('ACTION_EXPIRED', `Tool ${name} was not confirmed in time`);
+        }
+        if (!decision.approved) {
+          throw new AgentError('ACTION_REJECTED', `Tool ${name} was rejected${decision.reason ? `: ${decision.reason}` : ''}`);
+        }
+      }
+
+      ctx.budget?.recordToolCall();
       const result = await tool.invoke(args, ctx);
 
       // Log result
@@ -90,6 +108,16 @@ export class ToolRegistry {
     }
   }
 
+  /**
+   * High-risk actions always need confirmation; others only when the policy asks for it
+   */
+  private needsConfirmation(riskLevel: RiskLevel, policy: SessionPolicy): boolean {
+    if (riskLevel === 'high') {
+      return true;
+    }
+    return policy.requireConfirmation && riskLevel !== 'safe';
+  }
+
   /**
    * Get tool catalog for LLM prompt
    */
@@ -5,6 +5,8 @@
 
 import type { SupervisorClient } from '../server/supervisor-client.js';
 import type { BackgroundIndexer } from '../intelligence/background-indexer.js';
+import type { BudgetMeter } from './budget-meter.js';
+import type { MigrationReport } from './schema-migrations.js';
 
 // ============================================================================
 // Session Types
@@ -17,6 +19,7 @@ export interface AgentSession {
   createdAt: number;
   updatedAt: number;
   status: SessionStatus;
+  ownerId?: string; // Principal that started the session; unset without authentication
   model: ModelConfig;
   budgets: Budgets;
   policy: SessionPolicy;
@@ -61,6 +64,7 @@ export interface TurnMessage {
 
 export interface TurnMessageMeta {
   continuationId: string;
+  role: 'user' | 'assistant';
   timestamp: number;
   preview: string; // First 100 chars
 }
@@ -73,6 +77,7 @@ export type ContinuationStatus =
   | 'pending'
   | 'running'
   | 'streaming'
+  | 'awaiting_confirmation'
   | 'completed'
   | 'failed'
   | 'cancelled'
@@ -90,6 +95,25 @@ export interface Continuation {
   stepLog: StepLogEntry[];
   artifacts?: ArtifactRef[];
   error?: ContinuationError;
+  pendingAction?: PendingAction; // Set while awaiting_confirmation
+  usage?: ContinuationUsage; // Rolled up into SessionStats when the turn closes
+}
+
+export interface ContinuationUsage {
+  steps: number; // Model calls
+  toolCalls: number;
+  tokens: number; // Provider-reported, or estimated when the provider reports none
+  wallTimeMs: number;
+}
+
+export interface PendingAction {
+  id: string; // ULID
+  callId?: string; // Model tool call awaiting the decision
+  tool: string;
+  args: unknown;
+  riskLevel: RiskLevel;
+  requestedAt: number;
+  expiresAt: number;
 }
 
 export interface ContinuationRequest {
@@ -99,6 +123,8 @@ export interface ContinuationRequest {
   timeBudgetMs: number;
   plannerHints?: PlannerHints;
   idempotencyKey?: string; // Dedupe protection
+  model?: ModelConfig; // Per-turn override of session.model
+  stream?: boolean; // Stream model output as partial events
 }
 
 export interface ContinuationResponse {
@@ -119,19 +145,43 @@ export interface ContinuationError {
 // Step Log Types
 // ============================================================================
 
-export type StepLogType =
-  | 'plan'
-  | 'tool_call'
-  | 'tool_result'
-  | 'retrieval'
-  | 'observed_event'
-  | 'summary'
-  | 'error';
+export const STEP_LOG_TYPES = [
+  'plan',
+  'tool_call',
+  'tool_result',
+  'retrieval',
+  'observed_event',
+  'summary',
+  'error',
+] as const;
+
+export type StepLogType = (typeof STEP_LOG_TYPES)[number];
 
 export interface StepLogEntry {
   ts: number;
   type: StepLogType;
   detail: unknown;
+  wallTimeMs?: number; // Continuation wall time so far, less confirmation waits (charged again on resume)
+}
+
+// ============================================================================
+// Streaming Event Types
+// ============================================================================
+
+export type ContinuationEventType = 'status' | 'step' | 'partial' | 'final';
+
+export interface ContinuationEvent {
+  type: ContinuationEventType;
+  sessionId: string;
+  continuationId: string;
+  ts: number;
+  payload: {
+    status?: ContinuationStatus;
+    step?: StepLogEntry;
+    partialResponse?: string; // Coalesced token delta
+    finalResponse?: ContinuationResponse;
+    error?: ContinuationError;
+  };
 }
 
 // ============================================================================
@@ -161,6 +211,14 @@ export interface SessionPolicy {
   enforceFixedModel: boolean;
 }
 
+// Operator limits on session policies (add-on options); callers cannot grant more
+export interface PolicyCeiling {
+  actuation: 'disabled' | 'admins' | 'everyone'; // Who may start sessions with allowActuation
+  allowlistedServices: string[]; // Services any session may allowlist (patterns as in SessionPolicy)
+  denylistedServices: string[]; // Denylisted in every session
+  requireConfirmation: boolean; // Sessions cannot turn confirmation off
+}
+
 export interface UserPreferences {
   verbosity?: 'minimal' | 'standard' | 'detailed';
   streamingEnabled?: boolean;
@@ -187,6 +245,62 @@ export interface SessionStats {
   lastActivityAt: number;
 }
 
+// ============================================================================
+// Persistence Types
+// ============================================================================
+
+export type StorageBackend = 'files' | 'sqlite';
+
+export interface ContinuationQuery {
+  sessionId?: string;
+  sessionIds?: string[]; // Only these sessions (e.g., the ones a principal may read)
+  status?: ContinuationStatus[];
+  createdAfter?: number;
+  createdBefore?: number;
+  text?: string; // Case-insensitive substring of the request message or final response
+  order?: 'asc' | 'desc'; // By createdAt (default: asc)
+  offset?: number;
+  limit?: number;
+}
+
+export interface StepLogWriter {
+  log(entry: StepLogEntry): void;
+  close(): Promise<void>; // Flushes buffered entries
+}
+
+export interface PruneResult {
+  turns: number;
+  logs: number;
+  bytes: number;
+}
+
+/**
+ * Where sessions, continuations and step logs are persisted
+ * Implemented by FileLayout (JSON/NDJSON files) and SqliteStore.
+ */
+export interface AgentStore {
+  readonly backend: StorageBackend;
+  init(): Promise<void>;
+
+  writeSession(session: AgentSession): Promise<void>;
+  readSession(sessionId: string): Promise<AgentSession | null>; // Throws CORRUPT_FILE if unreadable
+  listSessions(): Promise<string[]>;
+  deleteSession(sessionId: string): Promise<void>;
+  quarantineSession(sessionId: string): Promise<string>; // Returns where the session was moved
+
+  writeContinuation(sessionId: string, continuation: Continuation): Promise<void>;
+  readContinuation(sessionId: string, continuationId: string): Promise<Continuation | null>;
+  listContinuations(sessionId: string): Promise<string[]>;
+  queryContinuations(query: ContinuationQuery): Promise<Continuation[]>;
+  // Delete turn records and step logs last written before cutoff, except those in keep
+  pruneContinuations(sessionId: string, cutoff: number, keep: Set<string>): Promise<PruneResult>;
+
+  openStepLog(sessionId: string, continuationId: string): Promise<StepLogWriter>;
+  readStepLog(sessionId: string, continuationId: string): Promise<StepLogEntry[]>;
+
+  getMigrationReport(): MigrationReport; // Records upgraded from older schema versions since startup
+}
+
 // ============================================================================
 // Tool Registry Types
 // ============================================================================
@@ -208,6 +322,8 @@ export interface ToolInvokeContext {
   haClient: SupervisorClient;
   index: BackgroundIndexer;
   artifacts: ArtifactStore;
+  confirm?: (request: ConfirmationRequest) => Promise<ConfirmationDecision>; // Absent: actions needing confirmation fail
+  budget?: BudgetMeter; // Counts invocations against the session's tool call budget
 }
 
 export interface ToolCost {
@@ -215,9 +331,26 @@ export interface ToolCost {
   estimatedTokens?: number;
 }
 
+export type RiskLevel = 'safe' | 'low' | 'medium' | 'high';
+
 export interface ToolSafety {
   requiresActuation: boolean;
-  riskLevel: 'safe' | 'low' | 'medium' | 'high';
+  riskLevel: RiskLevel;
+  // Per-call check against the session policy: throws if the call is not permitted,
+  // otherwise returns its risk level (riskLevel when omitted)
+  assess?: (args: unknown, policy: SessionPolicy) => RiskLevel;
+}
+
+export interface ConfirmationRequest {
+  tool: string;
+  args: unknown;
+  riskLevel: RiskLevel;
+}
+
+export interface ConfirmationDecision {
+  approved: boolean;
+  reason?: string;
+  expired?: boolean; // Nobody decided before the confirmation timeout
 }
 
 // ============================================================================
@@ -227,17 +360,101 @@ export interface ToolSafety {
 export interface ArtifactRef {
   id: string; // ULID
   type: 'json' | 'text' | 'image' | 'plot' | 'log';
+  mimeType?: string;
   path: string;
   sizeBytes: number;
   createdAt: number;
+  sessionId?: string; // Owner; absent for artifacts written outside a session
+  continuationId?: string;
+  tags?: string[];
+  checksum?: string; // SHA-256 of the content (hex)
   metadata?: Record<string, any>;
 }
 
+export interface ArtifactWriteOptions {
+  mimeType?: string; // Defaults by type
+  sessionId?: string;
+  continuationId?: string;
+  tags?: string[];
+}
+
+export interface ArtifactFilters {
+  type?: ArtifactRef['type'];
+  mimeType?: string;
+  sessionId?: string;
+  continuationId?: string;
+  tags?: string[]; // Artifacts carrying all of these tags
+  createdAfter?: number;
+  createdBefore?: number;
+  minSize?: number;
+  maxSize?: number;
+}
+
 export interface ArtifactStore {
-  write(type: string, content: Buffer | string, metadata?: Record<string, any>): Promise<ArtifactRef>;
+  write(
+    type: string,
+    content: Buffer | string,
+    metadata?: Record<string, any>,
+    options?: ArtifactWriteOptions
+  ): Promise<ArtifactRef>;
   read(id: string): Promise<Buffer>;
   delete(id: string): Promise<void>;
-  list(filters?: Record<string, any>): Promise<ArtifactRef[]>;
+  list(filters?: ArtifactFilters): Promise<ArtifactRef[]>;
+}
+
+// ============================================================================
+// Model Provider Types
+// ============================================================================
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  toolCalls?: ModelToolCall[]; // Assistant messages only
+  toolCallId?: string; // Tool messages only
+  name?: string; // Tool name for tool messages
+}
+
+export interface ModelToolCall {
+  id: string;
+  name: string;
+  arguments: unknown;
+}
+
+export interface ModelToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: object;
+}
+
+export interface ModelChatRequest {
+  model: ModelConfig;
+  messages: ChatMessage[];
+  tools?: ModelToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface ModelChatResponse {
+  content: string;
+  toolCalls: ModelToolCall[];
+  finishReason?: string;
+  usage?: ModelUsage;
+}
+
+export interface ModelUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export type ModelStreamChunk =
+  | { type: 'text'; delta: string }
+  | { type: 'done'; response: ModelChatResponse };
+
+export interface ModelProvider {
+  readonly name: string;
+  chat(request: ModelChatRequest): Promise<ModelChatResponse>;
+  stream(request: ModelChatRequest): AsyncGenerator<ModelStreamChunk>;
 }
 
 // ============================================================================
@@ -266,6 +483,10 @@ export const DEFAULTS = {
   memory: {
     lastK: 6, // Last 6 full messages
     summaryTokens: 2000, // Rolling summary target
+    summaryTimeoutMs: 30_000, // Summarization falls back to an extractive summary after this
+    maxFacts: 50, // Least confident facts are dropped beyond this
+    contextFacts: 8, // Facts included in a continuation's prompt
+    maxPins: 20, // Pins are always in the prompt, so keep them few
   },
   budgets: {
     maxSteps: 8,
@@ -275,14 +496,32 @@ export const DEFAULTS = {
   },
   ttl: {
     sessionIdleDays: 7,
-    continuationRetentionHours: 24,
+    continuationRetentionHours: 24, // Turn records and step logs; ended sessions are archived after this too
+    artifactRetentionDays: 7,
+    idempotencyHours: 24, // Repeated send_message keys are deduplicated within this window
+  },
+  persistence: {
+    sessionBackups: 2, // Previous session.json generations kept for recovery
+  },
+  housekeeping: {
+    intervalMs: 60 * 60 * 1000, // Hourly expiry, pruning and archiving
   },
   streaming: {
     partialUpdateIntervalMs: 500, // Coalesced chunks
     flushCadenceMs: 2000, // Persistence
   },
+  confirmation: {
+    timeoutMs: 300_000, // Pending actions are rejected after 5 minutes
+  },
   concurrency: {
     maxOpenContinuationsPerSession: 1, // Single-flight default
+    maxQueuedPerSession: 10, // Further sends are rejected (queue mode)
+  },
+  policyCeiling: {
+    actuation: 'admins' as PolicyCeiling['actuation'],
+    allowlistedServices: ['*'] as string[],
+    denylistedServices: [] as string[],
+    requireConfirmation: false,
   },
   policy: {
     allowActuation: false, // Read-only by default
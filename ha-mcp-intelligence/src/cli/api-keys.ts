@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+/**
+ * Manage hashed API keys for bearer authentication
+ *
+ * Usage: node dist/cli/api-keys.js <create NAME [--admin] | list | revoke ID>
+ *
+ * Keys are regular users (they only see the agent sessions they start) unless created with --admin.
+ */
+
+import { ApiKeyStore } from '../server/api-key-store.js';
+
+async function main() {
+  const [command, arg, ...flags] = process.argv.slice(2);
+  const store = new ApiKeyStore(process.env.DATA_PATH || '/data');
+
+  switch (command) {
+    case 'create': {
+      if (!arg || flags.some((flag) => flag !== '--admin')) {
+        throw new Error('Usage: api-keys create <name> [--admin]');
+      }
+      const { record, key } = await store.create(arg, { admin: flags.includes('--admin') });
+      console.log(`Created ${record.admin ? 'admin ' : ''}API key ${record.id} (${record.name})`);
+      console.log(`Key (shown only once): ${key}`);
+      break;
+    }
+
+    case 'list': {
+      const records = await store.list();
+      for (const record of records) {
+        const status = record.revokedAt ? `revoked ${new Date(record.revokedAt).toISOString()}` : 'active';
+        const role = record.admin ? 'admin' : 'user';
+        console.log(
+          `${record.id}  ${record.name}  ${role}  created ${new Date(record.createdAt).toISOString()}  ${status}`
+        );
+      }
+      if (records.length === 0) {
+        console.log('No API keys');
+      }
+      break;
+    }
+
+    case 'revoke': {
+      if (!arg) {
+        throw new Error('Usage: api-keys revoke <id>');
+      }
+      if (!(await store.revoke(arg))) {
+        throw new Error(`No active API key with ID ${arg}`);
+      }
+      console.log(`Revoked API key ${arg}`);
+      break;
+    }
+
+    default:
+      throw new Error('Usage: api-keys <create NAME [--admin] | list | revoke ID>');
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+import { join } from 'path';
+import { migrateSession } from './migrate-storage.js';
+import { SqliteStore } from '../agent/sqlite-store.js';
+import { answer, createAgentHarness } from '../testing/agent-harness.js';
+import type { AgentHarness } from '../testing/agent-harness.js';
+
+describe('migrate-storage', () => {
+  let harness: AgentHarness;
+  let target: SqliteStore;
+  let sessionId: string;
+  let continuationId: string;
+
+  beforeEach(async () => {
+    harness = await createAgentHarness();
+    harness.provider.script(answer('The porch light is off.'));
+
+    const session = await harness.sessions.createSession();
+    const continuation = await harness.runner.createContinuation(session, {
+      message: 'Is the porch light on?',
+      allowTools: false,
+      maxSteps: 1,
+      timeBudgetMs: 10_000,
+    });
+    await harness.runner.execute(session, continuation);
+    sessionId = session.id;
+    continuationId = continuation.id;
+
+    target = new SqliteStore(join(harness.dataPath, 'agent.db'));
+    await target.init();
+  });
+
+  afterEach(async () => {
+    target.close();
+    await harness.cleanup();
+  });
+
+  it('copies a session with its continuations and step logs', async () => {
+    expect(await migrateSession(harness.store, target, sessionId)).toBe(1);
+
+    expect((await target.readSession(sessionId))?.id).toBe(sessionId);
+    expect(await target.readContinuation(sessionId, continuationId)).toEqual(
+      await harness.store.readContinuation(sessionId, continuationId)
+    );
+    expect(await target.readStepLog(sessionId, continuationId)).toEqual(
+      await harness.store.readStepLog(sessionId, continuationId)
+    );
+  });
+
+  it('does not duplicate step logs left by an interrupted run', async () => {
+    const source = await harness.store.readStepLog(sessionId, continuationId);
+    expect(source.length).toBeGreaterThan(0);
+
+    // A run that died after copying the step log but before writing the session row
+    const partial = await target.openStepLog(sessionId, continuationId);
+    source.forEach((entry) => partial.log(entry));
+    await partial.close();
+    expect(await target.listSessions()).toEqual([]);
+
+    await migrateSession(harness.store, target, sessionId);
+
+    expect(await target.readStepLog(sessionId, continuationId)).toEqual(source);
+    expect(await target.listContinuations(sessionId)).toEqual([continuationId]);
+  });
+});
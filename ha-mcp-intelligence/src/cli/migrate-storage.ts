@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+/**
+ * Copy agent sessions, turn records and step logs from /data/sessions into the SQLite store
+ *
+ * Usage: node dist/cli/migrate-storage.js [--keep-files]
+ *
+ * Sessions already in the database are skipped, so an interrupted migration can be rerun;
+ * rows a failed run left for an unfinished session are replaced.
+ * Afterwards /data/sessions is renamed to sessions.migrated-<timestamp> unless --keep-files
+ * is given or a session failed to migrate. Set storage_backend to sqlite and restart the add-on.
+ */
+
+import { join } from 'path';
+import { rename } from 'fs/promises';
+import { FileLayout } from '../agent/file-layout.js';
+import { SqliteStore } from '../agent/sqlite-store.js';
+import type { AgentStore } from '../agent/types.js';
+
+export async function migrateSession(source: AgentStore, target: AgentStore, sessionId: string): Promise<number> {
+  const session = await source.readSession(sessionId);
+  if (!session) {
+    throw new Error('session.json missing');
+  }
+
+  // Drop continuations and step log rows copied by an interrupted run, or they would be duplicated
+  await target.deleteSession(sessionId);
+
+  let continuations = 0;
+  for (const continuationId of await source.listContinuations(sessionId)) {
+    const continuation = await source.readContinuation(sessionId, continuationId);
+    if (continuation) {
+      await target.writeContinuation(sessionId, continuation);
+      continuations++;
+    }
+
+    const entries = await source.readStepLog(sessionId, continuationId);
+    if (entries.length > 0) {
+      const stepLog = await target.openStepLog(sessionId, continuationId);
+      for (const entry of entries) {
+        stepLog.log(entry);
+      }
+      await stepLog.close();
+    }
+  }
+
+  // Written last: a session row means its continuations are complete
+  await target.writeSession(session);
+  return continuations;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const unknown = args.filter((arg) => arg !== '--keep-files');
+  if (unknown.length > 0) {
+    throw new Error('Usage: migrate-storage [--keep-files]');
+  }
+  const keepFiles = args.includes('--keep-files');
+
+  const dataPath = process.env.DATA_PATH || '/data';
+  const source = new FileLayout(dataPath);
+  const target = new SqliteStore(join(dataPath, 'agent.db'));
+  await target.init();
+
+  const existing = new Set(await target.listSessions());
+  let migrated = 0;
+  let skipped = 0;
+  const failed: string[] = [];
+
+  try {
+    for (const sessionId of await source.listSessions()) {
+      if (existing.has(sessionId)) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const continuations = await migrateSession(source, target, sessionId);
+        console.log(`Migrated session ${sessionId} (${continuations} continuations)`);
+        migrated++;
+      } catch (err) {
+        console.error(`Failed to migrate session ${sessionId}: ${(err as Error).message}`);
+        failed.push(sessionId);
+      }
+    }
+  } finally {
+    target.close();
+  }
+
+  console.log(`${migrated} sessions migrated, ${skipped} already in the database, ${failed.length} failed`);
+
+  if (failed.length > 0) {
+    throw new Error(`Left ${source.getSessionsPath()} in place; fix or remove the failed sessions and rerun`);
+  }
+
+  if (!keepFiles && migrated + skipped > 0) {
+    const backup = `${source.getSessionsPath()}.migrated-${Date.now()}`;
+    await rename(source.getSessionsPath(), backup);
+    console.log(`Moved ${source.getSessionsPath()} to ${backup}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -1,47 +1,124 @@
 #!/usr/bin/env node
 
 // Load environment variables from .env file (for local development)
+// quiet: dotenv's banner would corrupt the JSON-RPC stream in stdio mode
 import { config as loadEnv } from 'dotenv';
-loadEnv();
+loadEnv({ quiet: true });
 
 import { join } from 'path';
 import { MCPServer } from './server/mcp-server.js';
 import { BackgroundIndexer } from './intelligence/background-indexer.js';
 import { SupervisorClient } from './server/supervisor-client.js';
 import { SessionManager } from './agent/session-manager.js';
+import { MemoryManager } from './agent/memory-manager.js';
+import { IdempotencyIndex } from './agent/idempotency-index.js';
 import { ContinuationRunner } from './agent/continuation-runner.js';
+import { Housekeeper } from './agent/housekeeper.js';
 import { ToolRegistry } from './agent/tool-registry.js';
 import { ArtifactStore } from './agent/artifact-store.js';
 import { FileLayout } from './agent/file-layout.js';
-import { AgentTools } from './tools/agent-tools.js';
+import { SqliteStore } from './agent/sqlite-store.js';
+import type { AgentStore, PolicyCeiling } from './agent/types.js';
+import { createProviderRegistry } from './agent/providers/provider-registry.js';
+import { ContinuationEventBus } from './agent/continuation-events.js';
+import { AgentTools, BusySessionMode } from './tools/agent-tools.js';
+import {
+  Authenticator,
+  ApiKeyValidator,
+  HomeAssistantTokenValidator,
+  StaticTokenValidator,
+  TokenValidator,
+} from './server/auth.js';
+import { ApiKeyStore } from './server/api-key-store.js';
 import { DiagnoseEntityTool } from './tools/diagnose-entity.js';
 import { AnalyzeErrorsTool } from './tools/analyze-errors.js';
-import { createDiagnoseEntityAdapter, createAnalyzeErrorsAdapter } from './agent/tool-adapters.js';
+import { QueryDependencyGraphTool } from './tools/query-dependency-graph.js';
+import {
+  createDiagnoseEntityAdapter,
+  createAnalyzeErrorsAdapter,
+  createQueryDependencyGraphAdapter,
+} from './agent/tool-adapters.js';
+import { createCallServiceTool } from './agent/call-service-tool.js';
 import { Logger } from './utils/logger.js';
 
 const logger = new Logger('Main');
 
+/**
+ * Parse a comma-separated option (as exported by run.sh); fallback if the variable is unset
+ */
+function listEnv(value: string | undefined, fallback: string[]): string[] {
+  if (value === undefined) {
+    return fallback;
+  }
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 async function main() {
   const config = {
     port: 3123,
     logLevel: (process.env.LOG_LEVEL || 'info') as 'debug' | 'info' | 'warning' | 'error',
     cacheTTL: parseInt(process.env.CACHE_TTL_SECONDS || '60', 10),
     authRequired: process.env.AUTH_REQUIRED === 'true',
+    authTokens: (process.env.AUTH_TOKENS || '')
+      .split(',')
+      .map((t) => t.trim())
+      .filter(Boolean),
+    authHomeAssistant: process.env.AUTH_HOME_ASSISTANT !== 'false',
+    authAdminOnly: process.env.AUTH_ADMIN_ONLY === 'true',
     supervisorToken: process.env.SUPERVISOR_TOKEN || '',
     dataPath: process.env.DATA_PATH || '/data',
+    storageBackend: (process.env.STORAGE_BACKEND === 'sqlite' ? 'sqlite' : 'files') as AgentStore['backend'],
+    resumeInterrupted: process.env.RESUME_INTERRUPTED === 'true',
+    confirmationTimeoutSeconds: parseInt(process.env.CONFIRMATION_TIMEOUT_SECONDS || '300', 10),
+    concurrencyMode: (process.env.CONCURRENCY_MODE === 'reject' ? 'reject' : 'queue') as BusySessionMode,
+    sessionIdleDays: parseInt(process.env.SESSION_IDLE_DAYS || '7', 10),
+    continuationRetentionHours: parseInt(process.env.CONTINUATION_RETENTION_HOURS || '24', 10),
+    artifactRetentionDays: parseInt(process.env.ARTIFACT_RETENTION_DAYS || '7', 10),
+    housekeepingIntervalMinutes: parseInt(process.env.HOUSEKEEPING_INTERVAL_MINUTES || '60', 10),
+    policyCeiling: {
+      // Who may start sessions with actuation, and which services any session may call
+      actuation: (['disabled', 'everyone'].includes(process.env.ACTUATION || '')
+        ? process.env.ACTUATION
+        : 'admins') as PolicyCeiling['actuation'],
+      allowlistedServices: listEnv(process.env.ACTUATION_ALLOWLIST, ['*']),
+      denylistedServices: listEnv(process.env.ACTUATION_DENYLIST, []),
+      requireConfirmation: process.env.ACTUATION_REQUIRE_CONFIRMATION === 'true',
+    },
+    transport: (process.env.MCP_TRANSPORT || 'http') as 'http' | 'stdio',
+    modelProvider: process.env.MODEL_PROVIDER || 'openrouter',
+    modelId: process.env.MODEL_ID || 'google/gemini-2.0-flash-exp:free',
+    openRouterApiKey: process.env.OPENROUTER_API_KEY || '',
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY || '',
+    openAIApiKey: process.env.OPENAI_API_KEY || '',
+    openAIBaseUrl: process.env.OPENAI_BASE_URL || '',
+    ollamaUrl: process.env.OLLAMA_URL || '',
   };
 
-  logger.info('Starting HA MCP Intelligence Server (with Agent)', config);
+  logger.info('Starting HA MCP Intelligence Server (with Agent)', {
+    ...config,
+    supervisorToken: config.supervisorToken ? '***' : '',
+    authTokens: `${config.authTokens.length} configured`,
+    openRouterApiKey: config.openRouterApiKey ? '***' : '',
+    anthropicApiKey: config.anthropicApiKey ? '***' : '',
+    openAIApiKey: config.openAIApiKey ? '***' : '',
+  });
 
-  // Initialize Supervisor client
+  // Initialize Supervisor client (shared by the indexer and the agent's actuation tools)
   const haClient = new SupervisorClient({
     supervisorToken: config.supervisorToken,
   });
 
+  logger.info('Connecting to Supervisor WebSocket...');
+  await haClient.connect();
+
   // Start background indexer
   const indexer = new BackgroundIndexer({
     supervisorToken: config.supervisorToken,
     ttlSeconds: config.cacheTTL,
+    client: haClient,
   });
 
   await indexer.start();
@@ -50,72 +127,164 @@ async function main() {
   // Initialize agent components
   logger.info('Initializing agent system...');
 
+  // Archives and the idempotency index stay under the file layout with either backend
   const fileLayout = new FileLayout(config.dataPath);
   await fileLayout.init();
 
+  const store: AgentStore =
+    config.storageBackend === 'sqlite' ? new SqliteStore(join(config.dataPath, 'agent.db')) : fileLayout;
+  await store.init();
+  logger.info(`Agent storage backend: ${store.backend}`);
+
   const artifactStore = new ArtifactStore(join(config.dataPath, 'artifacts'));
   await artifactStore.init();
 
   const toolRegistry = new ToolRegistry();
 
+  const providers = createProviderRegistry({
+    openRouterApiKey: config.openRouterApiKey,
+    anthropicApiKey: config.anthropicApiKey,
+    openAIApiKey: config.openAIApiKey,
+    openAIBaseUrl: config.openAIBaseUrl || undefined,
+    ollamaUrl: config.ollamaUrl || undefined,
+  });
+
   // Register existing intelligence tools with the agent
   const diagnoseEntityTool = new DiagnoseEntityTool(indexer);
   const analyzeErrorsTool = new AnalyzeErrorsTool(indexer);
+  const queryDependencyGraphTool = new QueryDependencyGraphTool(indexer, artifactStore);
 
   toolRegistry.register(createDiagnoseEntityAdapter(diagnoseEntityTool));
   toolRegistry.register(createAnalyzeErrorsAdapter(analyzeErrorsTool));
+  toolRegistry.register(createQueryDependencyGraphAdapter(queryDependencyGraphTool));
+
+  // Actuation: gated by each session's policy (allow/deny lists, confirmation)
+  toolRegistry.register(createCallServiceTool());
 
   logger.info(`Registered ${toolRegistry.listToolNames().length} tools for agent use`);
 
   const sessionManager = new SessionManager({
     dataPath: config.dataPath,
+    store,
+    memory: new MemoryManager({ providers }),
     defaultModel: {
-      provider: 'openrouter',
-      modelId: 'google/gemini-2.0-flash-exp:free',
+      provider: config.modelProvider,
+      modelId: config.modelId,
       temperature: 0.7,
     },
+    policyCeiling: config.policyCeiling,
   });
 
   await sessionManager.init();
   logger.info(`Loaded ${sessionManager.listSessions().length} existing sessions`);
 
+  const continuationEvents = new ContinuationEventBus();
+
   const continuationRunner = new ContinuationRunner({
     dataPath: config.dataPath,
-    fileLayout,
+    store,
     toolRegistry,
     artifactStore,
     haClient,
     indexer,
+    providers,
+    events: continuationEvents,
+    confirmationTimeoutMs: config.confirmationTimeoutSeconds * 1000,
   });
 
   const agentTools = new AgentTools({
     sessionManager,
     continuationRunner,
+    events: continuationEvents,
+    idempotency: new IdempotencyIndex(fileLayout),
+    whenBusy: config.concurrencyMode,
   });
 
+  const recovery = await agentTools.recoverInterrupted({ resume: config.resumeInterrupted });
+  if (recovery.interrupted > 0) {
+    logger.info(`Recovered ${recovery.interrupted} interrupted continuations (${recovery.resumed} resumed)`);
+  }
+
+  // Records written by older versions are upgraded as they are read during loading and recovery
+  const migrations = store.getMigrationReport();
+  const migrated = Object.values(migrations.migrated).reduce((sum, count) => sum + count, 0);
+  if (migrated > 0) {
+    logger.info(`Migrated ${migrated} records to schema version ${migrations.schemaVersion}`, migrations.migrated);
+  }
+  if (migrations.failed.length > 0) {
+    logger.warning(`${migrations.failed.length} records could not be migrated and were skipped`, migrations.failed);
+  }
+
+  // Expire idle sessions, prune old turns, logs and artifacts, archive ended sessions
+  const housekeeper = new Housekeeper({
+    sessionManager,
+    store,
+    fileLayout,
+    artifactStore,
+    retention: {
+      sessionIdleDays: config.sessionIdleDays,
+      continuationRetentionHours: config.continuationRetentionHours,
+      artifactRetentionDays: config.artifactRetentionDays,
+    },
+    intervalMs: config.housekeepingIntervalMinutes * 60 * 1000,
+  });
+  housekeeper.start();
+
   logger.info('Agent system initialized');
 
+  // Bearer token validation: static tokens, then API keys, then Home Assistant
+  const validators: TokenValidator[] = [];
+  if (config.authTokens.length > 0) {
+    validators.push(new StaticTokenValidator(config.authTokens));
+  }
+  validators.push(new ApiKeyValidator(new ApiKeyStore(config.dataPath)));
+  if (config.authHomeAssistant) {
+    validators.push(new HomeAssistantTokenValidator());
+  }
+
+  const authenticator = new Authenticator({ validators, adminOnly: config.authAdminOnly });
+  if (config.authRequired) {
+    logger.info(`Authentication enabled (${authenticator.listSources().join(', ')})`);
+  }
+
   // Start MCP server (now with agent tools)
   const server = new MCPServer({
     port: config.port,
     authRequired: config.authRequired,
+    authenticator,
     indexer,
+    artifactStore,
     agentTools,
+    housekeeper,
   });
 
-  await server.start();
-  logger.info(`MCP server listening on port ${config.port}`);
+  if (config.transport === 'stdio') {
+    await server.startStdio();
+  } else {
+    await server.start();
+    logger.info(`MCP server listening on port ${config.port}`);
+  }
 
   // Graceful shutdown
   const shutdown = async (signal: string) => {
     logger.info(`Received ${signal}, shutting down gracefully...`);
+    housekeeper.stop();
     await server.stop();
     await indexer.stop();
+    await haClient.disconnect();
+    if (store instanceof SqliteStore) {
+      store.close();
+    }
     process.exit(0);
   };
 
   process.on('SIGTERM', () => shutdown('SIGTERM'));
   process.on('SIGINT', () => shutdown('SIGINT'));
+
+  // A stdio client exits by closing our stdin
+  if (config.transport === 'stdio') {
+    process.stdin.on('end', () => shutdown('stdin EOF'));
+  }
 }
 
 main().catch((error) => {
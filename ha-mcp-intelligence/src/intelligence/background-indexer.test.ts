@@ -0,0 +1,115 @@
+import { BackgroundIndexer } from './background-indexer.js';
+import type { HAEntity, HAEvent, HAStateChangedData, SupervisorClient } from '../server/supervisor-client.js';
+
+function state(entityId: string, value: string, attributes: Record<string, unknown> = {}): HAEntity {
+  const now = new Date().toISOString();
+  return { entity_id: entityId, state: value, attributes, last_changed: now, last_updated: now, context: { id: 'c' } };
+}
+
+/**
+ * Stands in for the Supervisor WebSocket: serves a fixed snapshot and captures event handlers
+ */
+class FakeSupervisor {
+  states: HAEntity[] = [];
+  automations: Record<string, Record<string, unknown>> = {};
+  handlers = new Map<string, (event: HAEvent<HAStateChangedData>) => void>();
+
+  onReconnected() {
+    return () => undefined;
+  }
+  async subscribeEvents(eventType: string, handler: (event: HAEvent<HAStateChangedData>) => void) {
+    this.handlers.set(eventType, handler);
+    return async () => undefined;
+  }
+  async getStates() {
+    return this.states;
+  }
+  async getDeviceRegistry() {
+    return [];
+  }
+  async getEntityRegistry() {
+    return [];
+  }
+  async getAreaRegistry() {
+    return [];
+  }
+  async getAutomationConfig(entityId: string) {
+    return this.automations[entityId] ?? {};
+  }
+  async getScriptConfig() {
+    return {};
+  }
+
+  stateChanged(entityId: string, newState: HAEntity | null) {
+    this.handlers.get('state_changed')!({
+      event_type: 'state_changed',
+      data: { entity_id: entityId, old_state: null, new_state: newState },
+      time_fired: new Date().toISOString(),
+    });
+  }
+}
+
+describe('BackgroundIndexer event-driven updates', () => {
+  let supervisor: FakeSupervisor;
+  let indexer: BackgroundIndexer;
+
+  beforeEach(async () => {
+    supervisor = new FakeSupervisor();
+    supervisor.states = [state('automation.porch', 'on'), state('light.porch', 'off')];
+    supervisor.automations['automation.porch'] = {
+      triggers: [{ trigger: 'state', entity_id: 'binary_sensor.porch_motion' }],
+      actions: [{ action: 'light.turn_on', target: { entity_id: 'light.porch' } }],
+    };
+
+    indexer = new BackgroundIndexer({
+      supervisorToken: 'test',
+      ttlSeconds: 60,
+      client: supervisor as unknown as SupervisorClient,
+    });
+    await indexer.start();
+  });
+
+  afterEach(async () => {
+    await indexer.stop();
+    jest.useRealTimers();
+  });
+
+  const edgesInto = (entityId: string) => indexer.getDependencyEdges().filter((e) => e.to === entityId);
+
+  it('links automations to an entity created after the initial index', async () => {
+    jest.useFakeTimers();
+    expect(edgesInto('binary_sensor.porch_motion')).toEqual([]);
+
+    supervisor.stateChanged('binary_sensor.porch_motion', state('binary_sensor.porch_motion', 'off'));
+    expect(indexer.getEntityNode('binary_sensor.porch_motion')).toBeDefined();
+
+    jest.advanceTimersByTime(2000);
+
+    expect(edgesInto('binary_sensor.porch_motion')).toEqual([
+      { from: 'automation.porch', to: 'binary_sensor.porch_motion', type: 'automation', via: 'trigger' },
+    ]);
+    expect(indexer.getEntityNode('binary_sensor.porch_motion')?.dependents).toEqual(new Set(['automation.porch']));
+  });
+
+  it('drops edges in both directions when an entity is removed', () => {
+    expect(edgesInto('light.porch')).toHaveLength(1);
+
+    supervisor.stateChanged('light.porch', null);
+
+    expect(indexer.getEntityNode('light.porch')).toBeUndefined();
+    expect(indexer.getDependencyEdges()).toEqual([]);
+    expect(indexer.getEntityNode('automation.porch')?.dependencies.size).toBe(0);
+  });
+
+  it('re-derives template edges when attributes change', () => {
+    supervisor.stateChanged(
+      'sensor.porch_summary',
+      state('sensor.porch_summary', 'ok', { value_template: "{{ states('light.porch') }}" })
+    );
+    expect(indexer.getDependencyChain('sensor.porch_summary')).toEqual(['sensor.porch_summary', 'light.porch']);
+
+    supervisor.stateChanged('sensor.porch_summary', state('sensor.porch_summary', 'ok'));
+    expect(indexer.getDependencyChain('sensor.porch_summary')).toEqual(['sensor.porch_summary']);
+    expect(edgesInto('light.porch').map((e) => e.from)).toEqual(['automation.porch']);
+  });
+});
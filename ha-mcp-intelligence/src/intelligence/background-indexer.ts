@@ -1,11 +1,44 @@
-import { SupervisorClient, HAEntity, HADeviceRegistry, HAEntityRegistry, HAAreaRegistry } from '../server/supervisor-client.js';
+import {
+  SupervisorClient,
+  HAEntity,
+  HADeviceRegistry,
+  HAEntityRegistry,
+  HAAreaRegistry,
+  HAEvent,
+  HAStateChangedData,
+} from '../server/supervisor-client.js';
 import { Logger } from '../utils/logger.js';
+import {
+  ConfigKind,
+  ConfigReference,
+  DependencyEdgeType,
+  DependencyVia,
+  ReferenceResolver,
+  extractConfigDependencies,
+} from './config-dependencies.js';
 
 export interface IndexerConfig {
   supervisorToken: string;
+  client?: SupervisorClient; // Shared client, connected and disconnected by its owner (default: a client of its own)
   ttlSeconds: number;
+  eventDriven?: boolean; // Apply state_changed deltas instead of polling (default: true)
 }
 
+// Registry updates trigger a full resync; bursts are coalesced into one
+const RESYNC_DEBOUNCE_MS = 2000;
+
+const REGISTRY_UPDATE_EVENTS = [
+  'entity_registry_updated',
+  'device_registry_updated',
+  'area_registry_updated',
+];
+
+// Automation/script configs are re-read on resync
+const CONFIG_RELOAD_EVENTS = ['automation_reloaded', 'script_reloaded'];
+
+// Parallel automation/script config requests per refresh
+const CONFIG_FETCH_CONCURRENCY = 10;
+
 export interface EntityNode {
   entity_id: string;
   domain: string;
@@ -22,16 +55,30 @@ export interface EntityNode {
   last_changed: Date;
 }
 
+export interface DependencyEdge {
+  from: string; // Dependent
+  to: string;   // Dependency
+  type: DependencyEdgeType;
+  via: DependencyVia;
+}
+
 export interface DependencyGraph {
   nodes: Map<string, EntityNode>;
-  edges: Array<{ from: string; to: string; type: 'template' | 'automation' | 'script' }>;
+  edges: Map<string, DependencyEdge[]>; // Outgoing edges by dependent entity ID
 }
 
 export class BackgroundIndexer {
   private logger = new Logger('BackgroundIndexer');
   private client: SupervisorClient;
+  private ownsClient: boolean;
   private ttl: number;
+  private eventDriven: boolean;
   private intervalId: NodeJS.Timeout | null = null;
+  private resyncTimer: NodeJS.Timeout | null = null;
+  private relinkTimer: NodeJS.Timeout | null = null;
+  private unsubscribers: Array<() => Promise<void>> = [];
+  private refreshing: Promise<void> | null = null;
+  private bufferedStateChanges: HAStateChangedData[] | null = null;
 
   // Memory limits to prevent unbounded growth
   private readonly MAX_ENTITIES = 10000;
@@ -43,25 +90,37 @@ export class BackgroundIndexer {
   private deviceRegistry = new Map<string, HADeviceRegistry>();
   private entityRegistry = new Map<string, HAEntityRegistry>();
   private areaRegistry = new Map<string, HAAreaRegistry>();
-  private dependencyGraph: DependencyGraph = { nodes: new Map(), edges: [] };
+  private configDependencies = new Map<string, ConfigReference[]>(); // automation/script entity -> references
+  private dependencyGraph: DependencyGraph = { nodes: new Map(), edges: new Map() };
   private lastUpdate: Date | null = null;
 
   constructor(config: IndexerConfig) {
-    this.client = new SupervisorClient({
+    this.ownsClient = !config.client;
+    this.client = config.client ?? new SupervisorClient({
       supervisorToken: config.supervisorToken,
     });
     this.ttl = config.ttlSeconds * 1000;
+    this.eventDriven = config.eventDriven ?? true;
   }
 
   async start(): Promise<void> {
-    this.logger.info('Connecting to Supervisor WebSocket...');
-    await this.client.connect();
+    if (this.ownsClient) {
+      this.logger.info('Connecting to Supervisor WebSocket...');
+      await this.client.connect();
+    }
+
+    // Subscribe before the initial index so no change falls between the two
+    const subscribed = this.eventDriven && (await this.subscribeToUpdates());
 
     this.logger.info('Performing initial index...');
     await this.refresh();
 
-    this.logger.info(`Starting background refresh (TTL: ${this.ttl / 1000}s)`);
-    this.intervalId = setInterval(() => this.refresh(), this.ttl);
+    if (subscribed) {
+      this.logger.info('Event-driven indexing enabled (state_changed subscription)');
+    } else {
+      this.logger.info(`Starting background refresh (TTL: ${this.ttl / 1000}s)`);
+      this.intervalId = setInterval(() => this.refresh(), this.ttl);
+    }
   }
 
   async stop(): Promise<void> {
@@ -69,10 +128,191 @@ export class BackgroundIndexer {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
-    await this.client.disconnect();
+    if (this.resyncTimer) {
+      clearTimeout(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+    if (this.relinkTimer) {
+      clearTimeout(this.relinkTimer);
+      this.relinkTimer = null;
+    }
+    for (const unsubscribe of this.unsubscribers.splice(0)) {
+      await unsubscribe().catch(() => undefined);
+    }
+    if (this.ownsClient) {
+      await this.client.disconnect();
+    }
+  }
+
+  /**
+   * Subscribe to state and registry events
+   * Returns false (caller falls back to TTL polling) if the subscription is refused.
+   */
+  private async subscribeToUpdates(): Promise<boolean> {
+    try {
+      this.unsubscribers.push(
+        await this.client.subscribeEvents<HAStateChangedData>('state_changed', (event) =>
+          this.onStateChanged(event)
+        )
+      );
+
+      for (const eventType of [...REGISTRY_UPDATE_EVENTS, ...CONFIG_RELOAD_EVENTS]) {
+        this.unsubscribers.push(
+          await this.client.subscribeEvents(eventType, () => {
+            this.logger.debug(`${eventType} received, scheduling resync`);
+            this.scheduleResync();
+          })
+        );
+      }
+
+      // Events were missed while disconnected
+      const unregisterReconnect = this.client.onReconnected(() => {
+        this.logger.info('Supervisor reconnected, performing full resync');
+        this.refresh();
+      });
+      this.unsubscribers.push(async () => unregisterReconnect());
+
+      return true;
+    } catch (error) {
+      this.logger.warning('Event subscription failed, falling back to TTL polling', error);
+      for (const unsubscribe of this.unsubscribers.splice(0)) {
+        await unsubscribe().catch(() => undefined);
+      }
+      return false;
+    }
+  }
+
+  private scheduleResync(): void {
+    if (this.resyncTimer) {
+      clearTimeout(this.resyncTimer);
+    }
+    this.resyncTimer = setTimeout(() => {
+      this.resyncTimer = null;
+      this.refresh();
+    }, RESYNC_DEBOUNCE_MS);
+  }
+
+  /**
+   * Rebuild the dependency edges from cached states and configs, once a burst of new entities settles
+   * Edges pointing at an entity are only added when their dependent is linked, so an
+   * automation or template referencing a newly created entity needs relinking.
+   */
+  private scheduleRelink(): void {
+    if (this.relinkTimer) {
+      clearTimeout(this.relinkTimer);
+    }
+    this.relinkTimer = setTimeout(() => {
+      this.relinkTimer = null;
+      // An in-flight refresh rebuilds the graph anyway
+      if (!this.refreshing) {
+        this.buildDependencyGraph();
+      }
+    }, RESYNC_DEBOUNCE_MS);
+  }
+
+  private onStateChanged(event: HAEvent<HAStateChangedData>): void {
+    // A full refresh is in flight; apply after it lands so it cannot overwrite newer state
+    if (this.bufferedStateChanges) {
+      this.bufferedStateChanges.push(event.data);
+      return;
+    }
+
+    this.applyStateChange(event.data);
+  }
+
+  /**
+   * Apply one state_changed delta to the entity cache and dependency graph
+   */
+  private applyStateChange(change: HAStateChangedData): void {
+    const entityId = change.entity_id;
+    const graph = this.dependencyGraph;
+
+    if (!change.new_state) {
+      this.entities.delete(entityId);
+      this.configDependencies.delete(entityId);
+      this.removeNode(entityId);
+      this.lastUpdate = new Date();
+      return;
+    }
+
+    if (!this.entities.has(entityId) && this.entities.size >= this.MAX_ENTITIES) {
+      return; // Same truncation as a full refresh
+    }
+
+    const entity = change.new_state;
+    this.entities.set(entityId, entity);
+
+    const node = graph.nodes.get(entityId);
+    if (node) {
+      node.state = entity.state;
+      node.unavailable = entity.state === 'unavailable' || entity.state === 'unknown';
+      node.last_changed = new Date(entity.last_changed);
+    } else {
+      graph.nodes.set(entityId, this.createNode(entityId, entity));
+      this.scheduleRelink();
+    }
+
+    // Template attributes can change with state, so re-derive this entity's edges
+    // (config-derived edges are re-applied from configDependencies)
+    this.unlinkDependencies(entityId);
+    this.linkDependencies(graph, entityId, entity);
+
+    this.lastUpdate = new Date();
+  }
+
+  /**
+   * Remove a node and every edge touching it
+   */
+  private removeNode(entityId: string): void {
+    const graph = this.dependencyGraph;
+    const node = graph.nodes.get(entityId);
+    if (!node) {
+      return;
+    }
+
+    node.dependencies.forEach((depId) => graph.nodes.get(depId)?.dependents.delete(entityId));
+    node.dependents.forEach((depId) => {
+      graph.nodes.get(depId)?.dependencies.delete(entityId);
+      const inbound = graph.edges.get(depId)?.filter((e) => e.to !== entityId);
+      if (inbound) {
+        graph.edges.set(depId, inbound);
+      }
+    });
+    graph.edges.delete(entityId);
+    graph.nodes.delete(entityId);
   }
 
+  /**
+   * Remove an entity's outgoing dependency edges
+   */
+  private unlinkDependencies(entityId: string): void {
+    const graph = this.dependencyGraph;
+    const node = graph.nodes.get(entityId);
+    if (!node) {
+      return;
+    }
+
+    node.dependencies.forEach((depId) => graph.nodes.get(depId)?.dependents.delete(entityId));
+    node.dependencies.clear();
+    graph.edges.delete(entityId);
+  }
+
+  /**
+   * Full resync of states and registries
+   * Concurrent callers share the in-flight refresh.
+   */
   async refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async doRefresh(): Promise<void> {
+    this.bufferedStateChanges = [];
+
     try {
       this.logger.debug('Refreshing index...');
 
@@ -116,85 +356,182 @@ export class BackgroundIndexer {
         this.areaRegistry.set(area.area_id, area);
       });
 
+      await this.loadConfigDependencies();
+
       // Build dependency graph
-      await this.buildDependencyGraph();
+      this.buildDependencyGraph();
 
       this.lastUpdate = new Date();
       this.logger.info(`Index refreshed: ${this.entities.size} entities, ${this.deviceRegistry.size} devices, ${this.areaRegistry.size} areas`);
     } catch (error) {
       this.logger.error('Failed to refresh index', error);
+    } finally {
+      // Replay deltas that arrived while the snapshot was being fetched
+      const buffered = this.bufferedStateChanges || [];
+      this.bufferedStateChanges = null;
+      buffered.forEach((change) => this.applyStateChange(change));
     }
   }
 
-  private async buildDependencyGraph(): Promise<void> {
-    const graph: DependencyGraph = { nodes: new Map(), edges: [] };
+  /**
+   * Fetch automation and script configs and extract their references
+   * A config that cannot be fetched keeps its previous references.
+   */
+  private async loadConfigDependencies(): Promise<void> {
+    const targets = Array.from(this.entities.keys()).filter(
+      (id) => id.startsWith('automation.') || id.startsWith('script.')
+    );
+    const resolver = this.createReferenceResolver();
+    const next = new Map<string, ConfigReference[]>();
+    let failed = 0;
+
+    const load = async (entityId: string) => {
+      const kind = entityId.split('.', 1)[0] as ConfigKind;
+      try {
+        const config =
+          kind === 'automation'
+            ? await this.client.getAutomationConfig(entityId)
+            : await this.client.getScriptConfig(entityId);
+        next.set(entityId, extractConfigDependencies(config, kind, resolver));
+      } catch (error) {
+        failed++;
+        this.logger.debug(`Could not load ${kind} config for ${entityId}`, error);
+        const previous = this.configDependencies.get(entityId);
+        if (previous) {
+          next.set(entityId, previous);
+        }
+      }
+    };
+
+    let cursor = 0;
+    const workers = Array.from({ length: Math.min(CONFIG_FETCH_CONCURRENCY, targets.length) }, async () => {
+      while (cursor < targets.length) {
+        await load(targets[cursor++]);
+      }
+    });
+    await Promise.all(workers);
+
+    this.configDependencies = next;
+    if (failed > 0) {
+      this.logger.warning(`Failed to load ${failed} of ${targets.length} automation/script configs`);
+    }
+  }
+
+  private createReferenceResolver(): ReferenceResolver {
+    const byRegistryId = new Map<string, string>();
+    const byDevice = new Map<string, string[]>();
+    const byArea = new Map<string, string[]>();
+
+    for (const entry of this.entityRegistry.values()) {
+      if (entry.id) {
+        byRegistryId.set(entry.id, entry.entity_id);
+      }
+      if (entry.device_id) {
+        byDevice.set(entry.device_id, [...(byDevice.get(entry.device_id) || []), entry.entity_id]);
+      }
+      // Entities without their own area inherit the device's
+      const areaId = entry.area_id || (entry.device_id ? this.deviceRegistry.get(entry.device_id)?.area_id : undefined);
+      if (areaId) {
+        byArea.set(areaId, [...(byArea.get(areaId) || []), entry.entity_id]);
+      }
+    }
+
+    return {
+      resolveEntityId: (ref) => (ref.includes('.') ? ref : byRegistryId.get(ref)),
+      entitiesForDevice: (deviceId) => byDevice.get(deviceId) || [],
+      entitiesForArea: (areaId) => byArea.get(areaId) || [],
+      entitiesInTemplate: (template) => this.extractDependencies(template),
+    };
+  }
+
+  private buildDependencyGraph(): void {
+    const graph: DependencyGraph = { nodes: new Map(), edges: new Map() };
 
     // Build nodes
     for (const [entityId, entity] of this.entities) {
-      const [domain, objectId] = entityId.split('.', 2);
-      const registryEntry = this.entityRegistry.get(entityId);
-
-      const node: EntityNode = {
-        entity_id: entityId,
-        domain,
-        object_id: objectId,
-        state: entity.state,
-        device_id: registryEntry?.device_id,
-        area_id: registryEntry?.area_id,
-        dependencies: new Set(),
-        dependents: new Set(),
-        platform: registryEntry?.platform,
-        disabled: !!registryEntry?.disabled_by,
-        unavailable: entity.state === 'unavailable' || entity.state === 'unknown',
-        last_changed: new Date(entity.last_changed),
-      };
-
-      graph.nodes.set(entityId, node);
+      graph.nodes.set(entityId, this.createNode(entityId, entity));
     }
 
-    // Extract template dependencies
+    // Extract dependencies
     for (const [entityId, entity] of this.entities) {
-      const node = graph.nodes.get(entityId)!;
-
-      // Extract dependencies from various template formats
-      const templateAttrs = [
-        entity.attributes.entity_id,
-        entity.attributes.value_template,
-        entity.attributes.state_template,
-        entity.attributes.icon_template,
-        entity.attributes.availability_template
-      ].filter(Boolean);
-
-      for (const template of templateAttrs) {
-        if (typeof template === 'string') {
-          const deps = this.extractDependencies(template);
-          deps.forEach(depId => {
-            if (graph.nodes.has(depId)) {
-              node.dependencies.add(depId);
-              graph.nodes.get(depId)!.dependents.add(entityId);
-              graph.edges.push({ from: entityId, to: depId, type: 'template' });
-            }
-          });
-        }
+      this.linkDependencies(graph, entityId, entity);
+    }
+
+    this.dependencyGraph = graph;
+    this.logger.debug(`Dependency graph built: ${graph.nodes.size} nodes, ${this.getDependencyEdges().length} edges`);
+  }
+
+  private createNode(entityId: string, entity: HAEntity): EntityNode {
+    const [domain, objectId] = entityId.split('.', 2);
+    const registryEntry = this.entityRegistry.get(entityId);
+
+    return {
+      entity_id: entityId,
+      domain,
+      object_id: objectId,
+      state: entity.state,
+      device_id: registryEntry?.device_id,
+      area_id: registryEntry?.area_id,
+      dependencies: new Set(),
+      dependents: new Set(),
+      platform: registryEntry?.platform,
+      disabled: !!registryEntry?.disabled_by,
+      unavailable: entity.state === 'unavailable' || entity.state === 'unknown',
+      last_changed: new Date(entity.last_changed),
+    };
+  }
+
+  /**
+   * Add an entity's outgoing edges derived from its state attributes and config
+   */
+  private linkDependencies(graph: DependencyGraph, entityId: string, entity: HAEntity): void {
+    const node = graph.nodes.get(entityId)!;
+    const edges: DependencyEdge[] = [];
+    const seen = new Set<string>();
+
+    const link = (depId: string, type: DependencyEdgeType, via: DependencyVia) => {
+      const key = `${depId}|${type}|${via}`;
+      if (depId === entityId || seen.has(key) || !graph.nodes.has(depId)) {
+        return;
       }
+      seen.add(key);
+      node.dependencies.add(depId);
+      graph.nodes.get(depId)!.dependents.add(entityId);
+      edges.push({ from: entityId, to: depId, type, via });
+    };
 
-      // Check automation triggers/conditions
-      if (entity.attributes.id && entity.domain === 'automation') {
-        const entityIds = entity.attributes.entity_id;
-        if (Array.isArray(entityIds)) {
-          entityIds.forEach((depId: string) => {
-            if (graph.nodes.has(depId)) {
-              node.dependencies.add(depId);
-              graph.nodes.get(depId)!.dependents.add(entityId);
-              graph.edges.push({ from: entityId, to: depId, type: 'automation' });
-            }
-          });
-        }
+    // Extract dependencies from various template formats
+    const templateAttrs = [
+      entity.attributes.entity_id,
+      entity.attributes.value_template,
+      entity.attributes.state_template,
+      entity.attributes.icon_template,
+      entity.attributes.availability_template
+    ].filter(Boolean);
+
+    for (const template of templateAttrs) {
+      if (typeof template === 'string') {
+        const deps = this.extractDependencies(template);
+        deps.forEach(depId => link(depId, 'template', 'attribute'));
       }
     }
 
-    this.dependencyGraph = graph;
-    this.logger.debug(`Dependency graph built: ${graph.nodes.size} nodes, ${graph.edges.length} edges`);
+    // Check automation triggers/conditions
+    if (entity.attributes.id && entity.domain === 'automation') {
+      const entityIds = entity.attributes.entity_id;
+      if (Array.isArray(entityIds)) {
+        entityIds.forEach((depId: string) => link(depId, 'automation', 'attribute'));
+      }
+    }
+
+    // Triggers, conditions, actions and script calls from the automation/script config
+    for (const ref of this.configDependencies.get(entityId) || []) {
+      link(ref.entityId, ref.type, ref.via);
+    }
+
+    if (edges.length > 0) {
+      graph.edges.set(entityId, edges);
+    }
   }
 
   // Public accessors
@@ -232,6 +569,10 @@ export class BackgroundIndexer {
       .filter((e): e is HAEntity => e !== undefined);
   }
 
+  getDependencyEdges(): DependencyEdge[] {
+    return Array.from(this.dependencyGraph.edges.values()).flat();
+  }
+
   getDependencyChain(entityId: string): string[] {
     const visited = new Set<string>();
     const chain: string[] = [];
@@ -0,0 +1,189 @@
+/**
+ * Dependency extraction from automation and script configs
+ *
+ * Walks triggers, conditions and actions, including nested building blocks
+ * (choose, if/then/else, repeat, parallel, sequence), and collects every entity
+ * the config refers to: entity/device/area targets, script calls and templates.
+ */
+
+export type DependencyEdgeType = 'template' | 'automation' | 'script';
+
+/** Where in the dependent's definition the reference was found */
+export type DependencyVia =
+  | 'attribute' // State attribute (template entities, legacy automation entity_id)
+  | 'trigger'
+  | 'condition'
+  | 'action'
+  | 'target' // entity_id/device_id/area_id of an action
+  | 'service' // script.<name> called as a service
+  | 'blueprint'; // Blueprint input
+
+export type ConfigKind = 'automation' | 'script';
+
+export interface ConfigReference {
+  entityId: string;
+  type: DependencyEdgeType;
+  via: DependencyVia;
+}
+
+export interface ReferenceResolver {
+  /** Map an entity ID or entity registry entry ID to an entity ID */
+  resolveEntityId(ref: string): string | undefined;
+  entitiesForDevice(deviceId: string): string[];
+  entitiesForArea(areaId: string): string[];
+  entitiesInTemplate(template: string): string[];
+}
+
+// Keys that open a section; nested `conditions`/`sequence` in choose/if/repeat switch the section too
+const SECTION_VIA: Record<string, DependencyVia> = {
+  trigger: 'trigger',
+  triggers: 'trigger',
+  condition: 'condition',
+  conditions: 'condition',
+  action: 'action',
+  actions: 'action',
+  sequence: 'action',
+  then: 'action',
+  else: 'action',
+  default: 'action',
+};
+
+// script.turn_on etc. name their targets via entity_id; any other script.<name> service is the script itself
+const SCRIPT_CONTROL_SERVICES = new Set(['turn_on', 'turn_off', 'toggle', 'reload']);
+
+const ENTITY_ID_PATTERN = /^[a-z_]+\.[a-z0-9_]+$/;
+
+function isTemplate(value: string): boolean {
+  return value.includes('{{') || value.includes('{%');
+}
+
+function toList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(',').map((v) => v.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === 'string');
+  }
+  return [];
+}
+
+/**
+ * Collect the entities an automation or script config depends on
+ */
+export function extractConfigDependencies(
+  config: Record<string, unknown>,
+  kind: ConfigKind,
+  resolver: ReferenceResolver
+): ConfigReference[] {
+  const references = new Map<string, ConfigReference>();
+
+  const add = (entityId: string | undefined, via: DependencyVia, fromTemplate = false) => {
+    if (!entityId) return;
+
+    let type: DependencyEdgeType;
+    if (fromTemplate) {
+      type = 'template';
+    } else if (kind === 'script' || (entityId.startsWith('script.') && via !== 'trigger' && via !== 'condition')) {
+      type = 'script';
+    } else {
+      type = 'automation';
+    }
+
+    const key = `${entityId}|${type}|${via}`;
+    if (!references.has(key)) {
+      references.set(key, { entityId, type, via });
+    }
+  };
+
+  const addEntities = (value: unknown, via: DependencyVia) => {
+    for (const ref of toList(value)) {
+      if (isTemplate(ref)) {
+        resolver.entitiesInTemplate(ref).forEach((id) => add(id, via, true));
+      } else {
+        add(resolver.resolveEntityId(ref), via);
+      }
+    }
+  };
+
+  const walk = (value: unknown, via: DependencyVia, inBlueprint: boolean): void => {
+    if (typeof value === 'string') {
+      if (isTemplate(value)) {
+        resolver.entitiesInTemplate(value).forEach((id) => add(id, via, true));
+      } else if (inBlueprint && ENTITY_ID_PATTERN.test(value)) {
+        add(value, via);
+      }
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => walk(item, via, inBlueprint));
+      return;
+    }
+
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+
+    const obj = value as Record<string, unknown>;
+    const targetVia: DependencyVia = via === 'action' ? 'target' : via;
+
+    // Device triggers/conditions/actions name one entity of the device when they have an entity_id
+    const isDeviceAutomation = 'device_id' in obj && 'domain' in obj && 'type' in obj;
+
+    for (const [key, child] of Object.entries(obj)) {
+      switch (key) {
+        case 'entity_id':
+          addEntities(child, targetVia);
+          break;
+
+        case 'device_id':
+          if (isDeviceAutomation && obj.entity_id) break;
+          for (const deviceId of toList(child)) {
+            resolver.entitiesForDevice(deviceId).forEach((id) => add(id, targetVia));
+          }
+          break;
+
+        case 'area_id':
+          for (const areaId of toList(child)) {
+            resolver.entitiesForArea(areaId).forEach((id) => add(id, targetVia));
+          }
+          break;
+
+        case 'target':
+          walk(child, 'target', inBlueprint);
+          break;
+
+        case 'scene':
+          if (typeof child === 'string' && ENTITY_ID_PATTERN.test(child)) {
+            add(child, 'target');
+          } else {
+            walk(child, via, inBlueprint);
+          }
+          break;
+
+        case 'use_blueprint':
+          walk((child as Record<string, unknown> | null)?.input, 'blueprint', true);
+          break;
+
+        case 'service':
+        case 'action':
+          // `action: light.turn_on` (2024.8+) and `service: light.turn_on` name a service call
+          if (typeof child === 'string' && !isTemplate(child)) {
+            const [domain, service] = child.split('.', 2);
+            if (domain === 'script' && service && !SCRIPT_CONTROL_SERVICES.has(service)) {
+              add(`script.${service}`, 'service');
+            }
+            break;
+          }
+          walk(child, SECTION_VIA[key] ?? via, inBlueprint);
+          break;
+
+        default:
+          walk(child, SECTION_VIA[key] ?? via, inBlueprint);
+      }
+    }
+  };
+
+  walk(config, 'action', false);
+  return Array.from(references.values());
+}
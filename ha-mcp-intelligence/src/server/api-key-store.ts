@@ -0,0 +1,117 @@
+/**
+ * ApiKeyStore - Hashed API keys persisted under /data/auth/api_keys.json
+ *
+ * Only SHA-256 hashes are stored; the plaintext key is shown once at creation.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { mkdir, readFile, stat } from 'fs/promises';
+import { dirname, join } from 'path';
+import { ulid } from '../agent/ulid.js';
+import { writeFileAtomic } from '../agent/atomic-file.js';
+
+export interface ApiKeyRecord {
+  id: string; // ULID
+  name: string;
+  hash: string; // sha256 hex of the key
+  createdAt: number;
+  revokedAt?: number;
+  admin?: boolean; // Admin keys can use every agent session; absent in keys created before the flag
+}
+
+export class ApiKeyStore {
+  private filePath: string;
+  private records: ApiKeyRecord[] = [];
+  private loadedMtimeMs = -1;
+
+  constructor(dataPath: string) {
+    this.filePath = join(dataPath, 'auth', 'api_keys.json');
+  }
+
+  static hash(key: string): string {
+    return createHash('sha256').update(key, 'utf8').digest('hex');
+  }
+
+  /**
+   * Find the active record for a presented key
+   */
+  async findByKey(key: string): Promise<ApiKeyRecord | null> {
+    await this.reloadIfChanged();
+
+    const hash = ApiKeyStore.hash(key);
+    return this.records.find((r) => r.hash === hash && !r.revokedAt) || null;
+  }
+
+  /**
+   * Create a key; the plaintext is returned only here
+   */
+  async create(name: string, options: { admin?: boolean } = {}): Promise<{ record: ApiKeyRecord; key: string }> {
+    await this.reloadIfChanged();
+
+    const key = `hamcp_${randomBytes(32).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id: ulid(),
+      name,
+      hash: ApiKeyStore.hash(key),
+      createdAt: Date.now(),
+      ...(options.admin ? { admin: true } : {}),
+    };
+
+    this.records.push(record);
+    await this.save();
+
+    return { record, key };
+  }
+
+  /**
+   * Revoke a key by ID
+   */
+  async revoke(id: string): Promise<boolean> {
+    await this.reloadIfChanged();
+
+    const record = this.records.find((r) => r.id === id);
+    if (!record || record.revokedAt) {
+      return false;
+    }
+
+    record.revokedAt = Date.now();
+    await this.save();
+    return true;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    await this.reloadIfChanged();
+    return [...this.records];
+  }
+
+  /**
+   * Re-read the file when it changed on disk (keys are managed by a separate CLI process)
+   */
+  private async reloadIfChanged(): Promise<void> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await stat(this.filePath)).mtimeMs;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.records = [];
+        this.loadedMtimeMs = -1;
+        return;
+      }
+      throw err;
+    }
+
+    if (mtimeMs === this.loadedMtimeMs) {
+      return;
+    }
+
+    const content = await readFile(this.filePath, 'utf8');
+    this.records = JSON.parse(content) as ApiKeyRecord[];
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  private async save(): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFileAtomic(this.filePath, JSON.stringify(this.records, null, 2), { mode: 0o600 });
+    this.loadedMtimeMs = (await stat(this.filePath)).mtimeMs;
+  }
+}
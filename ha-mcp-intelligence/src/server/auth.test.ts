@@ -0,0 +1,41 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ApiKeyStore } from './api-key-store.js';
+import { ApiKeyValidator } from './auth.js';
+
+describe('ApiKeyValidator', () => {
+  let dir: string;
+  let store: ApiKeyStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'ha-auth-test-'));
+    store = new ApiKeyStore(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('only grants admin to keys created as admin', async () => {
+    const user = await store.create('dashboard');
+    const admin = await store.create('ops', { admin: true });
+    const validator = new ApiKeyValidator(store);
+
+    expect(await validator.validate(user.key)).toMatchObject({
+      id: `api_key:${user.record.id}`,
+      source: 'api_key',
+      isAdmin: false,
+    });
+    expect(await validator.validate(admin.key)).toMatchObject({ id: `api_key:${admin.record.id}`, isAdmin: true });
+  });
+
+  it('rejects revoked and unknown keys', async () => {
+    const { record, key } = await store.create('old');
+    await store.revoke(record.id);
+    const validator = new ApiKeyValidator(store);
+
+    expect(await validator.validate(key)).toBeNull();
+    expect(await validator.validate('hamcp_unknown')).toBeNull();
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Bearer token authentication for the HTTP server
+ *
+ * A token is accepted if any validator recognizes it: a configured static token,
+ * a hashed API key from /data, or a Home Assistant long-lived access token.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import WebSocket from 'ws';
+import { ApiKeyStore } from './api-key-store.js';
+import { Logger } from '../utils/logger.js';
+
+export type PrincipalSource = 'static' | 'api_key' | 'home_assistant';
+
+export interface Principal {
+  id: string; // Stable per user/key, e.g. 'ha:<user id>' or 'api_key:<key id>'
+  name: string;
+  source: PrincipalSource;
+  isAdmin: boolean;
+}
+
+export interface TokenValidator {
+  readonly source: PrincipalSource;
+  /** Resolve the principal for a token, or null if this validator does not recognize it */
+  validate(token: string): Promise<Principal | null>;
+}
+
+export type AuthResult =
+  | { ok: true; principal: Principal }
+  | { ok: false; status: 401 | 403 | 503; message: string };
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value, 'utf8').digest();
+}
+
+/**
+ * Tokens listed in the add-on configuration
+ */
+export class StaticTokenValidator implements TokenValidator {
+  readonly source = 'static' as const;
+  private digests: Buffer[];
+
+  constructor(tokens: string[]) {
+    this.digests = tokens.filter((t) => t.length > 0).map(sha256);
+  }
+
+  async validate(token: string): Promise<Principal | null> {
+    const digest = sha256(token);
+    // Compare fixed-length digests so timing does not leak token contents
+    const match = this.digests.find((d) => timingSafeEqual(d, digest));
+    if (!match) {
+      return null;
+    }
+
+    const fingerprint = match.toString('hex').slice(0, 12);
+    return { id: `static:${fingerprint}`, name: `static token ${fingerprint}`, source: 'static', isAdmin: true };
+  }
+}
+
+/**
+ * Hashed API keys managed with the api-keys CLI
+ * Each key is its own principal; only keys created with --admin are admins.
+ */
+export class ApiKeyValidator implements TokenValidator {
+  readonly source = 'api_key' as const;
+
+  constructor(private store: ApiKeyStore) {}
+
+  async validate(token: string): Promise<Principal | null> {
+    const record = await this.store.findByKey(token);
+    if (!record) {
+      return null;
+    }
+
+    return { id: `api_key:${record.id}`, name: record.name, source: 'api_key', isAdmin: record.admin === true };
+  }
+}
+
+interface HACurrentUser {
+  id: string;
+  name?: string;
+  is_admin?: boolean;
+}
+
+// Messages the validator handles on the Core WebSocket API
+type HAAuthMessage =
+  | { type: 'auth_required' | 'auth_ok' | 'auth_invalid' }
+  | { type: 'result'; id: number; success: true; result: HACurrentUser }
+  | { type: 'result'; id: number; success: false; error?: { message?: string } };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Narrow a WebSocket message to the ones token validation uses; anything else yields null
+ */
+function toAuthMessage(value: unknown): HAAuthMessage | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  switch (value.type) {
+    case 'auth_required':
+    case 'auth_ok':
+    case 'auth_invalid':
+      return { type: value.type };
+
+    case 'result': {
+      if (typeof value.id !== 'number') {
+        return null;
+      }
+      if (value.success !== true) {
+        const message = isRecord(value.error) && typeof value.error.message === 'string' ? value.error.message : undefined;
+        return { type: 'result', id: value.id, success: false, error: { message } };
+      }
+
+      const result = value.result;
+      if (!isRecord(result) || typeof result.id !== 'string') {
+        return { type: 'result', id: value.id, success: false, error: { message: 'auth/current_user returned no user' } };
+      }
+      return {
+        type: 'result',
+        id: value.id,
+        success: true,
+        result: {
+          id: result.id,
+          name: typeof result.name === 'string' ? result.name : undefined,
+          is_admin: result.is_admin === true,
+        },
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+interface CachedPrincipal {
+  principal: Principal | null;
+  expiresAt: number;
+}
+
+/**
+ * Home Assistant long-lived access tokens
+ *
+ * The Supervisor proxy only accepts add-on tokens, so user tokens are checked
+ * against Core directly: authenticate a WebSocket with the token and ask for
+ * auth/current_user. Results are cached by token hash.
+ */
+export class HomeAssistantTokenValidator implements TokenValidator {
+  readonly source = 'home_assistant' as const;
+  private wsUrl: string;
+  private cache = new Map<string, CachedPrincipal>();
+
+  private static readonly VALID_TTL_MS = 5 * 60 * 1000;
+  private static readonly INVALID_TTL_MS = 30 * 1000;
+  private static readonly MAX_CACHE_ENTRIES = 1000;
+  private static readonly TIMEOUT_MS = 10_000;
+
+  constructor(config: { wsUrl?: string } = {}) {
+    const haHost = process.env.HA_HOST || 'homeassistant';
+    this.wsUrl = config.wsUrl || `ws://${haHost}:8123/api/websocket`;
+  }
+
+  async validate(token: string): Promise<Principal | null> {
+    const key = sha256(token).toString('hex');
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.principal;
+    }
+
+    const principal = await this.fetchCurrentUser(token);
+
+    if (this.cache.size >= HomeAssistantTokenValidator.MAX_CACHE_ENTRIES) {
+      // Map iterates in insertion order: drop the oldest entry
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(key, {
+      principal,
+      expiresAt:
+        Date.now() +
+        (principal ? HomeAssistantTokenValidator.VALID_TTL_MS : HomeAssistantTokenValidator.INVALID_TTL_MS),
+    });
+
+    return principal;
+  }
+
+  private fetchCurrentUser(token: string): Promise<Principal | null> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.wsUrl);
+      let settled = false;
+
+      const finish = (error: Error | null, principal: Principal | null = null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        ws.terminate();
+        error ? reject(error) : resolve(principal);
+      };
+
+      const timer = setTimeout(
+        () => finish(new Error('Timed out validating token with Home Assistant')),
+        HomeAssistantTokenValidator.TIMEOUT_MS
+      );
+
+      ws.on('message', (data: WebSocket.Data) => {
+        let message: HAAuthMessage | null;
+        try {
+          message = toAuthMessage(JSON.parse(data.toString()));
+        } catch (error) {
+          return finish(error as Error);
+        }
+        if (!message) {
+          return;
+        }
+
+        switch (message.type) {
+          case 'auth_required':
+            ws.send(JSON.stringify({ type: 'auth', access_token: token }));
+            break;
+
+          case 'auth_invalid':
+            finish(null, null);
+            break;
+
+          case 'auth_ok':
+            ws.send(JSON.stringify({ id: 1, type: 'auth/current_user' }));
+            break;
+
+          case 'result':
+            if (message.id !== 1) break;
+            if (!message.success) {
+              return finish(new Error(message.error?.message || 'auth/current_user failed'));
+            }
+            finish(null, {
+              id: `ha:${message.result.id}`,
+              name: message.result.name || message.result.id,
+              source: 'home_assistant',
+              isAdmin: message.result.is_admin === true,
+            });
+            break;
+        }
+      });
+
+      ws.on('error', (error: Error) => finish(error));
+      ws.on('close', () => finish(new Error('Home Assistant closed the connection during token validation')));
+    });
+  }
+}
+
+export interface AuthenticatorConfig {
+  validators: TokenValidator[];
+  adminOnly?: boolean; // Reject authenticated non-admin users with 403
+}
+
+export class Authenticator {
+  private logger = new Logger('Authenticator');
+  private validators: TokenValidator[];
+  private adminOnly: boolean;
+
+  constructor(config: AuthenticatorConfig) {
+    this.validators = config.validators;
+    this.adminOnly = config.adminOnly ?? false;
+  }
+
+  /**
+   * Try each validator in order; the first that recognizes the token wins
+   */
+  async authenticate(token: string): Promise<AuthResult> {
+    let backendError = false;
+
+    for (const validator of this.validators) {
+      let principal: Principal | null;
+      try {
+        principal = await validator.validate(token);
+      } catch (error) {
+        this.logger.warning(`Token validation via ${validator.source} failed`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        backendError = true;
+        continue;
+      }
+
+      if (!principal) {
+        continue;
+      }
+
+      if (this.adminOnly && !principal.isAdmin) {
+        return { ok: false, status: 403, message: `Forbidden: ${principal.name} is not an administrator` };
+      }
+
+      return { ok: true, principal };
+    }
+
+    if (backendError) {
+      return { ok: false, status: 503, message: 'Authentication backend unavailable' };
+    }
+
+    return { ok: false, status: 401, message: 'Unauthorized: invalid bearer token' };
+  }
+
+  listSources(): PrincipalSource[] {
+    return this.validators.map((v) => v.source);
+  }
+}
@@ -3,42 +3,98 @@ import cors from 'cors';
 import compression from 'compression';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  JSONRPCMessageSchema,
+  JSONRPCMessage,
+  ErrorCode,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHttpTransport } from './streamable-http-transport.js';
 import { BackgroundIndexer } from '../intelligence/background-indexer.js';
 import { DiagnoseEntityTool } from '../tools/diagnose-entity.js';
 import { AnalyzeErrorsTool } from '../tools/analyze-errors.js';
+import { QueryDependencyGraphTool } from '../tools/query-dependency-graph.js';
+import { resolve } from 'path';
+import type { ArtifactStore } from '../agent/artifact-store.js';
+import { STEP_LOG_TYPES } from '../agent/types.js';
+import type { ArtifactRef } from '../agent/types.js';
+import { AgentError } from '../agent/errors.js';
+import type { Housekeeper } from '../agent/housekeeper.js';
 import { AgentTools } from '../tools/agent-tools.js';
+import { Authenticator, Principal } from './auth.js';
 import { Logger } from '../utils/logger.js';
 
 export interface MCPServerConfig {
   port: number;
   authRequired: boolean;
+  authenticator?: Authenticator; // Required when authRequired is set
   indexer: BackgroundIndexer;
+  artifactStore?: ArtifactStore; // Graph renderings and agent results, served as artifact:// resources
   agentTools?: AgentTools;
+  housekeeper?: Housekeeper; // Last run reported in /health
 }
 
 interface AuthenticatedRequest extends Request {
   token?: string;
+  principal?: Principal;
 }
 
+interface MCPSession {
+  server: Server;
+  transport: StreamableHttpTransport;
+  principalId?: string; // Only the principal that opened the session may use it
+}
+
+// MCP sessions without any traffic for this long are closed
+const MCP_SESSION_IDLE_MS = 60 * 60 * 1000;
+
+const ARTIFACT_URI_PREFIX = 'artifact://';
+const RESOURCES_PAGE_SIZE = 100;
+
 export class MCPServer {
   private logger = new Logger('MCPServer');
   private app: express.Application;
   private config: MCPServerConfig;
-  private server: Server;
+  private mcpSessions = new Map<string, MCPSession>();
+  private stdioServer: Server | null = null;
   private httpServer: ReturnType<typeof express.prototype.listen> | null = null;
 
   // Tool instances
   private diagnoseEntityTool: DiagnoseEntityTool;
   private analyzeErrorsTool: AnalyzeErrorsTool;
+  private queryDependencyGraphTool: QueryDependencyGraphTool;
   private agentTools?: AgentTools;
 
   constructor(config: MCPServerConfig) {
+    if (config.authRequired && !config.authenticator) {
+      throw new Error('authRequired is set but no authenticator was provided');
+    }
+
     this.config = config;
     this.app = express();
 
-    // Initialize MCP SDK Server
-    this.server = new Server(
+    // Initialize tools
+    this.diagnoseEntityTool = new DiagnoseEntityTool(config.indexer);
+    this.analyzeErrorsTool = new AnalyzeErrorsTool(config.indexer);
+    this.queryDependencyGraphTool = new QueryDependencyGraphTool(config.indexer, config.artifactStore);
+    this.agentTools = config.agentTools;
+
+    this.setupMiddleware();
+    this.setupRoutes();
+  }
+
+  /**
+   * Create an MCP SDK server with our handlers
+   * One instance is connected per transport (HTTP session or stdio); principal is
+   * the authenticated caller of an HTTP session.
+   * The SDK handles initialize, ping and capability negotiation.
+   */
+  private createProtocolServer(principal?: Principal): Server {
+    const server = new Server(
       {
         name: 'ha-mcp-intelligence',
         version: '0.1.0',
@@ -46,18 +102,16 @@ export class MCPServer {
       {
         capabilities: {
           tools: {},
+          ...(this.config.artifactStore ? { resources: {} } : {}),
         },
       }
     );
 
-    // Initialize tools
-    this.diagnoseEntityTool = new DiagnoseEntityTool(config.indexer);
-    this.analyzeErrorsTool = new AnalyzeErrorsTool(config.indexer);
-    this.agentTools = config.agentTools;
+    server.onerror = (error) => this.logger.error('MCP protocol error', error);
+    this.setupMCPHandlers(server, principal);
+    this.setupResourceHandlers(server, principal);
 
-    this.setupMiddleware();
-    this.setupMCPHandlers();
-    this.setupRoutes();
+    return server;
   }
 
   private setupMiddleware(): void {
@@ -80,34 +134,148 @@ export class MCPServer {
 
         const authHeader = req.headers.authorization;
         if (!authHeader || !authHeader.startsWith('Bearer ')) {
-          return res.status(401).json({
-            jsonrpc: '2.0',
-            error: {
-              code: -32001,
-              message: 'Unauthorized: Bearer token required',
-            },
-            id: null,
-          });
+          return this.rejectAuth(res, 401, 'Unauthorized: Bearer token required');
         }
 
-        req.token = authHeader.substring(7);
-        next();
+        req.token = authHeader.substring(7).trim();
+        this.config.authenticator!.authenticate(req.token).then(
+          (result) => {
+            if (!result.ok) {
+              return this.rejectAuth(res, result.status, result.message);
+            }
+            req.principal = result.principal;
+            next();
+          },
+          (error) => next(error)
+        );
       });
     }
 
     // Request logging
-    this.app.use((req: Request, res: Response, next: NextFunction) => {
-      this.logger.debug(`${req.method} ${req.path}`);
+    this.app.use((req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+      this.logger.debug(`${req.method} ${req.path}`, req.principal ? { principal: req.principal.id } : undefined);
       next();
     });
   }
 
-  private setupMCPHandlers(): void {
+  private rejectAuth(res: Response, status: number, message: string): void {
+    if (status === 401) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="ha-mcp-intelligence"');
+    }
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32001,
+        message,
+      },
+      id: null,
+    });
+  }
+
+  /**
+   * Look up an MCP session and check that the caller owns it
+   */
+  private getOwnedMCPSession(req: AuthenticatedRequest, res: Response): MCPSession | null {
+    const sessionId = req.header('mcp-session-id')!;
+    const session = this.mcpSessions.get(sessionId);
+    if (!session) {
+      res.status(404).json({
+        jsonrpc: '2.0',
+        error: { code: -32001, message: `Session not found: ${sessionId}` },
+        id: null,
+      });
+      return null;
+    }
+
+    if (session.principalId && session.principalId !== req.principal?.id) {
+      this.rejectAuth(res, 403, 'Forbidden: MCP session belongs to another principal');
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Check that a caller may read an artifact
+   * Artifacts of an agent session belong to the principal that started it; artifacts
+   * written outside a session (graph renderings) are readable by any caller.
+   */
+  private canReadArtifact(ref: ArtifactRef, principal?: Principal): boolean {
+    return !ref.sessionId || this.canReadSession(ref.sessionId, principal);
+  }
+
+  /**
+   * Check that a caller may read an agent session's data (the principal that started it, or admins)
+   */
+  private canReadSession(sessionId: string, principal?: Principal): boolean {
+    if (this.agentTools) {
+      return this.agentTools.canAccessSession(sessionId, principal);
+    }
+    // No authentication (auth disabled or stdio), or an admin
+    return !principal || principal.isAdmin;
+  }
+
+  /**
+   * Expose artifacts as artifact://{id} resources
+   */
+  private setupResourceHandlers(server: Server, principal?: Principal): void {
+    const store = this.config.artifactStore;
+    if (!store) {
+      return;
+    }
+
+    // Cursor is the ID of the last artifact on the previous page
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      const cursor = request.params?.cursor;
+      const refs = (await store.list()).filter(
+        (ref) => (!cursor || ref.id > cursor) && this.canReadArtifact(ref, principal)
+      );
+      const page = refs.slice(0, RESOURCES_PAGE_SIZE);
+
+      return {
+        resources: page.map((ref) => ({
+          uri: `${ARTIFACT_URI_PREFIX}${ref.id}`,
+          name: [ref.metadata?.tool, ref.metadata?.format, ref.type].filter(Boolean).join(' ') + ` ${ref.id}`,
+          description: `${ref.type} artifact, ${ref.sizeBytes} bytes${ref.tags?.length ? ` (${ref.tags.join(', ')})` : ''}`,
+          mimeType: ref.mimeType,
+        })),
+        nextCursor: refs.length > page.length ? page[page.length - 1].id : undefined,
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const id = uri.startsWith(ARTIFACT_URI_PREFIX) ? uri.substring(ARTIFACT_URI_PREFIX.length) : '';
+      const ref = id ? store.get(id) : undefined;
+
+      if (!ref) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+      }
+      if (!this.canReadArtifact(ref, principal)) {
+        throw new McpError(ErrorCode.InvalidParams, `Forbidden: ${uri} belongs to another principal`);
+      }
+
+      const content = await store.read(ref.id);
+      const mimeType = ref.mimeType ?? 'application/octet-stream';
+      const isText = mimeType.startsWith('text/') || mimeType === 'application/json';
+
+      return {
+        contents: [
+          isText
+            ? { uri, mimeType, text: content.toString('utf8') }
+            : { uri, mimeType, blob: content.toString('base64') },
+        ],
+      };
+    });
+  }
+
+  private setupMCPHandlers(server: Server, principal?: Principal): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const tools = [
         this.diagnoseEntityTool.getToolDefinition(),
         this.analyzeErrorsTool.getToolDefinition(),
+        this.queryDependencyGraphTool.getToolDefinition(),
       ];
 
       // Add agent tools if available
@@ -120,7 +288,11 @@ export class MCPServer {
               type: 'object',
               properties: {
                 model: { type: 'object', description: 'Model configuration' },
-                budgets: { type: 'object', description: 'Budget limits' },
+                budgets: {
+                  type: 'object',
+                  description:
+                    'Budget overrides (maxSteps, maxToolCalls, maxDurationMs, maxTokensPerTurn); omitted limits keep the defaults',
+                },
                 policy: { type: 'object', description: 'Session policy' },
                 preferences: { type: 'object', description: 'User preferences' },
               },
@@ -135,8 +307,23 @@ export class MCPServer {
                 session_id: { type: 'string', description: 'Session ID' },
                 message: { type: 'string', description: 'User message' },
                 allow_tools: { type: 'boolean', description: 'Allow tool usage' },
-                max_steps: { type: 'number', description: 'Maximum planning steps' },
-                time_budget_ms: { type: 'number', description: 'Time budget in milliseconds' },
+                max_steps: { type: 'number', description: 'Maximum planning steps (capped by the session budget)' },
+                time_budget_ms: {
+                  type: 'number',
+                  description: 'Time budget in milliseconds (capped by the session budget)',
+                },
+                idempotency_key: {
+                  type: 'string',
+                  description: 'Retry key: repeating it returns the original continuation instead of starting another',
+                },
+                model: {
+                  type: 'object',
+                  description: 'Per-turn model override (rejected when the session policy enforces a fixed model)',
+                },
+                stream: {
+                  type: 'boolean',
+                  description: 'Stream partial output to SSE subscribers (GET /mcp?session_id=...&continuation_id=...)',
+                },
               },
               required: ['session_id', 'message'],
             },
@@ -166,6 +353,132 @@ export class MCPServer {
               required: ['continuation_id'],
             },
           },
+          {
+            name: 'ha_agent.list_pending_actions',
+            description: 'List actions (e.g., service calls) waiting for approval',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                session_id: { type: 'string', description: 'Only actions in this session' },
+              },
+            },
+          },
+          {
+            name: 'ha_agent.approve',
+            description: 'Approve the action (e.g., a service call) a continuation is waiting on',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                continuation_id: { type: 'string', description: 'Continuation ID' },
+                action_id: { type: 'string', description: 'Pending action ID (guards against approving a newer action)' },
+                reason: { type: 'string', description: 'Approval note' },
+              },
+              required: ['continuation_id'],
+            },
+          },
+          {
+            name: 'ha_agent.reject',
+            description: 'Reject the action a continuation is waiting on',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                continuation_id: { type: 'string', description: 'Continuation ID' },
+                action_id: { type: 'string', description: 'Pending action ID' },
+                reason: { type: 'string', description: 'Rejection reason (shown to the agent)' },
+              },
+              required: ['continuation_id'],
+            },
+          },
+          {
+            name: 'ha_agent.get_transcript',
+            description: 'Page through the user and assistant turns of a session (oldest first)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                session_id: { type: 'string', description: 'Session ID' },
+                offset: { type: 'number', description: 'Index of the first turn (default: 0)' },
+                limit: { type: 'number', description: 'Turns per page, 1-100 (default: 20)' },
+                include_steps: { type: 'boolean', description: 'Include the step log of assistant turns' },
+              },
+              required: ['session_id'],
+            },
+          },
+          {
+            name: 'ha_agent.list_continuations',
+            description:
+              'Search agent continuations (newest first) by session, status, creation time and text in the request or final response; non-admins only see their own sessions',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                session_id: { type: 'string', description: 'Only continuations of this session' },
+                status: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: [
+                      'pending',
+                      'running',
+                      'streaming',
+                      'awaiting_confirmation',
+                      'completed',
+                      'failed',
+                      'cancelled',
+                      'expired',
+                      'interrupted',
+                    ],
+                  },
+                  description: 'Only continuations in one of these statuses',
+                },
+                created_after: { type: ['string', 'number'], description: 'ISO 8601 time or epoch milliseconds' },
+                created_before: { type: ['string', 'number'], description: 'ISO 8601 time or epoch milliseconds' },
+                query: { type: 'string', description: 'Case-insensitive text to find in the message or final response' },
+                offset: { type: 'number', description: 'Results to skip (default: 0)' },
+                limit: { type: 'number', description: 'Results per page, 1-100 (default: 20)' },
+                include_steps: { type: 'boolean', description: 'Include each step log' },
+              },
+            },
+          },
+          {
+            name: 'ha_agent.get_continuation',
+            description: 'Get a continuation with its request, response, error, usage and step log',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                session_id: { type: 'string', description: 'Session ID' },
+                continuation_id: { type: 'string', description: 'Continuation ID' },
+                include_steps: { type: 'boolean', description: 'Include the step log (default: true)' },
+              },
+              required: ['session_id', 'continuation_id'],
+            },
+          },
+          {
+            name: 'ha_agent.get_steps',
+            description:
+              "Query a continuation's step log by type and time, with tool call durations, or export the whole continuation as OpenTelemetry (OTLP/JSON) spans",
+            inputSchema: {
+              type: 'object',
+              properties: {
+                session_id: { type: 'string', description: 'Session ID' },
+                continuation_id: { type: 'string', description: 'Continuation ID' },
+                types: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: [...STEP_LOG_TYPES],
+                  },
+                  description: 'Only steps of these types',
+                },
+                since: { type: ['string', 'number'], description: 'ISO 8601 time or epoch milliseconds (inclusive)' },
+                until: { type: ['string', 'number'], description: 'ISO 8601 time or epoch milliseconds (exclusive)' },
+                format: {
+                  type: 'string',
+                  enum: ['steps', 'otlp'],
+                  description: 'steps (default) or otlp: an OTLP/JSON trace for Jaeger (filters do not apply)',
+                },
+              },
+              required: ['session_id', 'continuation_id'],
+            },
+          },
           {
             name: 'ha_agent.get_session',
             description: 'Get session state',
@@ -177,6 +490,72 @@ export class MCPServer {
               required: ['session_id'],
             },
           },
+          {
+            name: 'ha_agent.pin',
+            description: 'Pin context the agent always considers in a session (e.g., "the garage door sensor is flaky")',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                session_id: { type: 'string', description: 'Session ID' },
+                content: { type: 'string', description: 'Text to pin' },
+                reason: { type: 'string', description: 'Why it is pinned' },
+              },
+              required: ['session_id', 'content'],
+            },
+          },
+          {
+            name: 'ha_agent.unpin',
+            description: 'Remove pinned context',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                session_id: { type: 'string', description: 'Session ID' },
+                pin_id: { type: 'string', description: 'Pin ID' },
+              },
+              required: ['session_id', 'pin_id'],
+            },
+          },
+          {
+            name: 'ha_agent.list_memory',
+            description: 'List the rolling summary, key facts and pins of a session',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                session_id: { type: 'string', description: 'Session ID' },
+              },
+              required: ['session_id'],
+            },
+          },
+          {
+            name: 'ha_agent.add_fact',
+            description: 'Record a durable fact; facts relevant to a message are included in the prompt',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                session_id: { type: 'string', description: 'Session ID' },
+                fact: { type: 'string', description: 'Fact text' },
+                confidence: { type: 'number', description: 'Confidence 0-1 (default: 1)' },
+                relevance: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Retrieval tags (entity IDs, domains, areas, topics)',
+                },
+              },
+              required: ['session_id', 'fact'],
+            },
+          },
+          {
+            name: 'ha_agent.forget_fact',
+            description: 'Remove a key fact',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                session_id: { type: 'string', description: 'Session ID' },
+                fact_id: { type: 'string', description: 'Fact ID' },
+              },
+              required: ['session_id', 'fact_id'],
+            },
+          },
           {
             name: 'ha_agent.end_session',
             description: 'End a session',
@@ -208,7 +587,11 @@ export class MCPServer {
               properties: {
                 message: { type: 'string', description: 'User message' },
                 model: { type: 'object', description: 'Model configuration' },
-                budgets: { type: 'object', description: 'Budget limits' },
+                budgets: {
+                  type: 'object',
+                  description:
+                    'Budget overrides (maxSteps, maxToolCalls, maxDurationMs, maxTokensPerTurn); omitted limits keep the defaults',
+                },
                 allow_tools: { type: 'boolean', description: 'Allow tool usage' },
               },
               required: ['message'],
@@ -221,7 +604,7 @@ export class MCPServer {
     });
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       this.logger.info(`Tool call: ${name}`, args);
@@ -238,45 +621,109 @@ export class MCPServer {
             result = await this.analyzeErrorsTool.execute(args || {});
             break;
 
+          case 'query_dependency_graph':
+            result = await this.queryDependencyGraphTool.execute(args || {});
+            break;
+
           // Agent tools
           case 'ha_agent.start_session':
             if (!this.agentTools) throw new Error('Agent tools not initialized');
-            result = await this.agentTools.startSession(args as never);
+            result = await this.agentTools.startSession(args as never, principal);
             break;
 
           case 'ha_agent.send_message':
             if (!this.agentTools) throw new Error('Agent tools not initialized');
-            result = await this.agentTools.sendMessage(args as never);
+            result = await this.agentTools.sendMessage(args as never, principal);
             break;
 
           case 'ha_agent.await_continuation':
             if (!this.agentTools) throw new Error('Agent tools not initialized');
-            result = await this.agentTools.awaitContinuation(args as never);
+            result = await this.agentTools.awaitContinuation(args as never, principal);
             break;
 
           case 'ha_agent.cancel':
             if (!this.agentTools) throw new Error('Agent tools not initialized');
-            result = await this.agentTools.cancel(args as never);
+            result = await this.agentTools.cancel(args as never, principal);
+            break;
+
+          case 'ha_agent.list_pending_actions':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.listPendingActions(args as never, principal);
+            break;
+
+          case 'ha_agent.approve':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.approve(args as never, principal);
+            break;
+
+          case 'ha_agent.reject':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.reject(args as never, principal);
+            break;
+
+          case 'ha_agent.get_transcript':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.getTranscript(args as never, principal);
+            break;
+
+          case 'ha_agent.list_continuations':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.listContinuations(args as never, principal);
+            break;
+
+          case 'ha_agent.get_continuation':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.getContinuation(args as never, principal);
+            break;
+
+          case 'ha_agent.get_steps':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.getSteps(args as never, principal);
             break;
 
           case 'ha_agent.get_session':
             if (!this.agentTools) throw new Error('Agent tools not initialized');
-            result = await this.agentTools.getSession(args as never);
+            result = await this.agentTools.getSession(args as never, principal);
+            break;
+
+          case 'ha_agent.pin':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.pin(args as never, principal);
+            break;
+
+          case 'ha_agent.unpin':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.unpin(args as never, principal);
+            break;
+
+          case 'ha_agent.list_memory':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.listMemory(args as never, principal);
+            break;
+
+          case 'ha_agent.add_fact':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.addFact(args as never, principal);
+            break;
+
+          case 'ha_agent.forget_fact':
+            if (!this.agentTools) throw new Error('Agent tools not initialized');
+            result = await this.agentTools.forgetFact(args as never, principal);
             break;
 
           case 'ha_agent.end_session':
             if (!this.agentTools) throw new Error('Agent tools not initialized');
-            result = await this.agentTools.endSession(args as never);
+            result = await this.agentTools.endSession(args as never, principal);
             break;
 
           case 'ha_agent.list_sessions':
             if (!this.agentTools) throw new Error('Agent tools not initialized');
-            result = await this.agentTools.listSessions(args as never);
+            result = await this.agentTools.listSessions(args as never, principal);
             break;
 
           case 'ha_agent.ask':
             if (!this.agentTools) throw new Error('Agent tools not initialized');
-            result = await this.agentTools.ask(args as never);
+            result = await this.agentTools.ask(args as never, principal);
             break;
 
           default:
@@ -317,90 +764,268 @@ export class MCPServer {
         version: '0.1.0',
         lastIndexUpdate: lastUpdate?.toISOString() || null,
         entityCount: this.config.indexer.getAllEntities().length,
+        housekeeping: this.config.housekeeper?.getStatus() ?? null,
       });
     });
 
-    // MCP endpoint (JSON-RPC 2.0)
-    this.app.post('/mcp', async (req: Request, res: Response) => {
-      try {
-        const { jsonrpc, method, params, id } = req.body;
+    // Artifact content, with Range support for large results
+    this.app.get('/artifacts/:id', (req: AuthenticatedRequest, res: Response) => {
+      const ref = this.config.artifactStore?.get(req.params.id);
+      if (!ref) {
+        return res.status(404).json({ error: `Artifact not found: ${req.params.id}` });
+      }
+      if (!this.canReadArtifact(ref, req.principal)) {
+        return res.status(403).json({ error: 'Forbidden: artifact belongs to another principal' });
+      }
 
-        if (jsonrpc !== '2.0') {
-          return res.status(400).json({
-            jsonrpc: '2.0',
-            error: {
-              code: -32600,
-              message: 'Invalid Request: jsonrpc must be "2.0"',
-            },
-            id: id || null,
-          });
+      res.setHeader('Content-Type', ref.mimeType ?? 'application/octet-stream');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      // no-transform: compressing would break byte ranges
+      res.setHeader('Cache-Control', 'private, no-transform');
+
+      res.sendFile(resolve(ref.path), (err?: Error & { status?: number }) => {
+        if (err && !res.headersSent) {
+          res.status(err.status ?? 500).end();
         }
+      });
+    });
 
-        // Route to MCP SDK server
-        let response: unknown;
+    // Step log of a continuation: ?type=tool_call,tool_result&since=...&until=... or ?format=otlp
+    this.app.get(
+      '/sessions/:sessionId/continuations/:continuationId/steps',
+      async (req: AuthenticatedRequest, res: Response) => {
+        if (!this.agentTools) {
+          return res.status(503).json({ error: 'Agent tools not initialized' });
+        }
+        if (!this.canReadSession(req.params.sessionId, req.principal)) {
+          return res.status(403).json({ error: 'Forbidden: session belongs to another principal' });
+        }
 
-        if (method === 'tools/list') {
-          response = await this.server.request(
-            { method: 'tools/list', params: {} },
-            ListToolsRequestSchema
-          );
-        } else if (method === 'tools/call') {
-          response = await this.server.request(
-            { method: 'tools/call', params },
-            CallToolRequestSchema
+        const query = (name: string) => (typeof req.query[name] === 'string' ? (req.query[name] as string) : undefined);
+        try {
+          const result = await this.agentTools.getSteps(
+            {
+              session_id: req.params.sessionId,
+              continuation_id: req.params.continuationId,
+              types: query('type')?.split(','),
+              since: query('since'),
+              until: query('until'),
+              format: query('format') === 'otlp' ? 'otlp' : 'steps',
+            },
+            req.principal
           );
-        } else {
+          res.json(result);
+        } catch (error) {
+          const notFound = error instanceof AgentError && error.code === 'CONTINUATION_NOT_FOUND';
+          res.status(notFound ? 404 : 400).json({ error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    );
+
+    // MCP Streamable HTTP endpoint (JSON-RPC 2.0, single messages or batches)
+    this.app.post('/mcp', async (req: AuthenticatedRequest, res: Response) => {
+      const isBatch = Array.isArray(req.body);
+      const raw: unknown[] = isBatch ? req.body : [req.body];
+
+      const messages: JSONRPCMessage[] = [];
+      for (const item of raw) {
+        const parsed = JSONRPCMessageSchema.safeParse(item);
+        if (!parsed.success) {
           return res.status(400).json({
             jsonrpc: '2.0',
             error: {
-              code: -32601,
-              message: `Method not found: ${method}`,
+              code: -32600,
+              message: 'Invalid Request: not a JSON-RPC 2.0 message',
             },
-            id,
+            id: (item as { id?: unknown } | null)?.id ?? null,
           });
         }
+        messages.push(parsed.data);
+      }
 
-        res.json({
+      if (messages.length === 0) {
+        return res.status(400).json({
           jsonrpc: '2.0',
-          result: response,
-          id,
+          error: { code: -32600, message: 'Invalid Request: empty batch' },
+          id: null,
         });
+      }
+
+      try {
+        const sessionId = req.header('mcp-session-id');
+        let session: MCPSession;
+
+        if (sessionId) {
+          const existing = this.getOwnedMCPSession(req, res);
+          if (!existing) {
+            return;
+          }
+          session = existing;
+        } else if (messages.some((m) => 'method' in m && m.method === 'initialize')) {
+          session = await this.openMCPSession(false, req.principal);
+        } else {
+          // Sessionless compatibility mode for simple clients (e.g. curl tools/call)
+          session = await this.openMCPSession(true, req.principal);
+          res.on('close', () => {
+            session.server.close().catch(() => undefined);
+          });
+        }
+
+        await session.transport.handlePost(messages, isBatch, res);
       } catch (error) {
         this.logger.error('MCP request failed', error);
 
         const errorMessage = error instanceof Error ? error.message : String(error);
-        res.status(500).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32603,
-            message: `Internal error: ${errorMessage}`,
-          },
-          id: req.body.id || null,
-        });
+        if (!res.headersSent) {
+          res.status(500).json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32603,
+              message: `Internal error: ${errorMessage}`,
+            },
+            id: null,
+          });
+        }
       }
     });
 
-    // SSE endpoint for MCP (future: streaming support)
-    this.app.get('/mcp', (_req: Request, res: Response) => {
+    // Terminate an MCP session
+    this.app.delete('/mcp', async (req: AuthenticatedRequest, res: Response) => {
+      if (!req.header('mcp-session-id')) {
+        return res.status(404).end();
+      }
+
+      const session = this.getOwnedMCPSession(req, res);
+      if (!session) {
+        return;
+      }
+
+      await session.server.close();
+      res.status(204).end();
+    });
+
+    // SSE endpoint for MCP
+    // With ?session_id=...[&continuation_id=...] the stream carries continuation progress
+    // events (status, step, partial, final); a continuation stream ends after its final event.
+    this.app.get('/mcp', async (req: AuthenticatedRequest, res: Response) => {
+      // Streamable HTTP: standalone stream for server-initiated messages
+      if (req.header('mcp-session-id')) {
+        const session = this.getOwnedMCPSession(req, res);
+        if (!session) {
+          return;
+        }
+        return session.transport.attachSse(res);
+      }
+
+      const sessionId = typeof req.query.session_id === 'string' ? req.query.session_id : undefined;
+      const continuationId =
+        typeof req.query.continuation_id === 'string' ? req.query.continuation_id : undefined;
+
+      if (sessionId && !this.canReadSession(sessionId, req.principal)) {
+        return res.status(403).json({ error: 'Forbidden: session belongs to another principal' });
+      }
+
       res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
+      // no-transform keeps the compression middleware from buffering events
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
       res.setHeader('Connection', 'keep-alive');
 
       // Send initial connection message
       res.write('data: {"type":"connected","version":"0.1.0"}\n\n');
 
+      let closed = false;
+      let unsubscribe: (() => void) | null = null;
+      let keepAlive: NodeJS.Timeout | null = null;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        if (keepAlive) clearInterval(keepAlive);
+        unsubscribe?.();
+        res.end();
+      };
+
+      req.on('close', close);
+
+      if (sessionId) {
+        if (!this.agentTools) {
+          res.write(`event: error\ndata: ${JSON.stringify({ message: 'Agent tools not initialized' })}\n\n`);
+          return close();
+        }
+
+        try {
+          unsubscribe = await this.agentTools.watch(
+            { session_id: sessionId, continuation_id: continuationId },
+            (event) => {
+              if (closed) return;
+              res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+              if (continuationId && event.type === 'final') {
+                close();
+              }
+            }
+          );
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          res.write(`event: error\ndata: ${JSON.stringify({ message: errorMessage })}\n\n`);
+          return close();
+        }
+
+        // The final event may have been replayed while subscribing
+        if (closed) {
+          unsubscribe?.();
+          return;
+        }
+      }
+
       // Keep connection alive
-      const keepAlive = setInterval(() => {
+      keepAlive = setInterval(() => {
         res.write(':keep-alive\n\n');
       }, 30000);
-
-      _req.on('close', () => {
-        clearInterval(keepAlive);
-        res.end();
-      });
     });
   }
 
+  /**
+   * Open an MCP session backed by its own protocol server
+   */
+  private async openMCPSession(stateless: boolean, principal?: Principal): Promise<MCPSession> {
+    this.closeIdleMCPSessions();
+
+    const transport = new StreamableHttpTransport({ stateless });
+    const server = this.createProtocolServer(principal);
+    const session: MCPSession = { server, transport, principalId: principal?.id };
+
+    if (transport.sessionId) {
+      const id = transport.sessionId;
+      this.mcpSessions.set(id, session);
+      server.onclose = () => {
+        this.mcpSessions.delete(id);
+        this.logger.debug(`MCP session closed: ${id}`);
+      };
+      this.logger.debug(`MCP session opened: ${id}`, principal ? { principal: principal.id } : undefined);
+    }
+
+    await server.connect(transport);
+    return session;
+  }
+
+  private closeIdleMCPSessions(): void {
+    const cutoff = Date.now() - MCP_SESSION_IDLE_MS;
+    for (const session of this.mcpSessions.values()) {
+      if (session.transport.lastActivityAt < cutoff) {
+        session.server.close().catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Serve MCP over stdin/stdout (local subprocess mode for desktop clients)
+   */
+  async startStdio(): Promise<void> {
+    this.stdioServer = this.createProtocolServer();
+    await this.stdioServer.connect(new StdioServerTransport());
+    this.logger.info('MCP server running on stdio');
+  }
+
   async start(): Promise<void> {
     return new Promise((resolve) => {
       this.httpServer = this.app.listen(this.config.port, () => {
@@ -411,6 +1036,15 @@ export class MCPServer {
   }
 
   async stop(): Promise<void> {
+    for (const session of Array.from(this.mcpSessions.values())) {
+      await session.server.close();
+    }
+
+    if (this.stdioServer) {
+      await this.stdioServer.close();
+      this.stdioServer = null;
+    }
+
     if (this.httpServer) {
       return new Promise((resolve, reject) => {
         this.httpServer!.close((error: Error | undefined) => {
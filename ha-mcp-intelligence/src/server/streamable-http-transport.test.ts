@@ -0,0 +1,78 @@
+import { EventEmitter } from 'events';
+import type { Response } from 'express';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHttpTransport } from './streamable-http-transport.js';
+
+class FakeResponse extends EventEmitter {
+  statusCode = 200;
+  body: unknown;
+  headersSent = false;
+
+  status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(): this {
+    return this;
+  }
+
+  json(body: unknown): this {
+    this.body = body;
+    this.headersSent = true;
+    return this;
+  }
+
+  end(): this {
+    this.headersSent = true;
+    return this;
+  }
+}
+
+function request(id: string | number): JSONRPCMessage {
+  return { jsonrpc: '2.0', id, method: 'tools/list' };
+}
+
+describe('StreamableHttpTransport', () => {
+  it('replies to a batch once every request has a response', async () => {
+    const transport = new StreamableHttpTransport({ stateless: true });
+    transport.onmessage = (message) => {
+      const id = (message as { id: number }).id;
+      void transport.send({ jsonrpc: '2.0', id, result: { id } });
+    };
+    const res = new FakeResponse();
+
+    await transport.handlePost([request(1), request(2)], true, res as unknown as Response);
+
+    expect(res.body).toEqual([
+      { jsonrpc: '2.0', id: 1, result: { id: 1 } },
+      { jsonrpc: '2.0', id: 2, result: { id: 2 } },
+    ]);
+  });
+
+  it('rejects a batch with a duplicate request id instead of hanging', async () => {
+    const transport = new StreamableHttpTransport({ stateless: true });
+    const delivered: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => delivered.push(message);
+    const res = new FakeResponse();
+
+    await transport.handlePost([request(1), request(1)], true, res as unknown as Response);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toMatchObject({ error: { code: -32600 }, id: 1 });
+    expect(delivered).toHaveLength(0);
+  });
+
+  it('rejects a request whose id is still pending from another POST', async () => {
+    const transport = new StreamableHttpTransport();
+    transport.onmessage = () => undefined;
+    const first = new FakeResponse();
+    const second = new FakeResponse();
+
+    await transport.handlePost([request('a')], false, first as unknown as Response);
+    await transport.handlePost([request('a')], false, second as unknown as Response);
+
+    expect(second.statusCode).toBe(400);
+    expect(first.headersSent).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * StreamableHttpTransport - MCP Streamable HTTP transport for a single MCP session
+ *
+ * Client messages arrive via POST (single message or JSON-RPC batch). Responses
+ * to the requests in a POST are collected and returned as one JSON body;
+ * server-initiated messages go out on the session's GET SSE stream.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Response } from 'express';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+type RequestId = string | number;
+
+interface PendingPost {
+  res: Response;
+  isBatch: boolean;
+  ids: RequestId[];
+  responses: Map<RequestId, JSONRPCMessage>;
+}
+
+export class StreamableHttpTransport implements Transport {
+  readonly sessionId?: string; // Undefined for stateless (sessionless) transports
+  lastActivityAt = Date.now();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private pending = new Map<RequestId, PendingPost>();
+  private sseResponse: Response | null = null;
+  private closed = false;
+
+  constructor(options: { stateless?: boolean } = {}) {
+    this.sessionId = options.stateless ? undefined : randomUUID();
+  }
+
+  async start(): Promise<void> {
+    // Nothing to do: messages are pushed in by handlePost()
+  }
+
+  /**
+   * Deliver the messages of one POST and reply once every request has a response
+   */
+  async handlePost(messages: JSONRPCMessage[], isBatch: boolean, res: Response): Promise<void> {
+    this.lastActivityAt = Date.now();
+
+    const ids = messages.filter(isRequest).map((m) => m.id);
+
+    // Responses are matched to requests by id, so an id must be unique among open requests
+    const duplicate = ids.find((id, i) => ids.indexOf(id) !== i || this.pending.has(id));
+    if (duplicate !== undefined) {
+      res.status(400).json({
+        jsonrpc: '2.0',
+        error: { code: -32600, message: `Invalid Request: duplicate request id ${JSON.stringify(duplicate)}` },
+        id: duplicate,
+      });
+      return;
+    }
+
+    if (ids.length === 0) {
+      // Only notifications/responses: acknowledge without a body
+      res.status(202).end();
+    } else {
+      const post: PendingPost = { res, isBatch, ids, responses: new Map() };
+      for (const id of ids) {
+        this.pending.set(id, post);
+      }
+
+      res.on('close', () => {
+        for (const id of post.ids) {
+          if (this.pending.get(id) === post) {
+            this.pending.delete(id);
+          }
+        }
+      });
+    }
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  /**
+   * Attach the session's SSE stream for server-initiated messages
+   */
+  attachSse(res: Response): void {
+    this.lastActivityAt = Date.now();
+
+    if (this.sseResponse) {
+      // Only one standalone stream per session; the newer one wins
+      this.sseResponse.end();
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    if (this.sessionId) {
+      res.setHeader('Mcp-Session-Id', this.sessionId);
+    }
+    res.flushHeaders();
+
+    this.sseResponse = res;
+    res.on('close', () => {
+      if (this.sseResponse === res) {
+        this.sseResponse = null;
+      }
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Transport is closed');
+    }
+
+    if (isResponse(message)) {
+      const post = this.pending.get(message.id);
+      if (post) {
+        this.pending.delete(message.id);
+        post.responses.set(message.id, message);
+        if (post.responses.size === post.ids.length) {
+          this.reply(post);
+        }
+        return;
+      }
+    }
+
+    if (this.sseResponse) {
+      this.sseResponse.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+    }
+    // Without an open stream, server-initiated messages are dropped as the spec allows
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    this.sseResponse?.end();
+    this.sseResponse = null;
+    this.pending.clear();
+
+    this.onclose?.();
+  }
+
+  private reply(post: PendingPost): void {
+    if (post.res.headersSent) {
+      return;
+    }
+
+    const responses = post.ids.map((id) => post.responses.get(id)!);
+    if (this.sessionId) {
+      post.res.setHeader('Mcp-Session-Id', this.sessionId);
+    }
+    post.res.json(post.isBatch ? responses : responses[0]);
+  }
+}
+
+function isRequest(message: JSONRPCMessage): message is JSONRPCMessage & { id: RequestId; method: string } {
+  return 'method' in message && 'id' in message;
+}
+
+function isResponse(message: JSONRPCMessage): message is JSONRPCMessage & { id: RequestId } {
+  return 'id' in message && ('result' in message || 'error' in message);
+}
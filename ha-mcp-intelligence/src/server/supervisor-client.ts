@@ -32,6 +32,7 @@ export interface HADeviceRegistry {
 }
 
 export interface HAEntityRegistry {
+  id?: string; // Registry entry ID (device automations reference entities by it)
   entity_id: string;
   unique_id: string;
   platform: string;
@@ -49,6 +50,70 @@ export interface HAAreaRegistry {
   picture?: string;
 }
 
+export interface HAEvent<T = Record<string, unknown>> {
+  event_type: string;
+  data: T;
+  origin?: string;
+  time_fired: string;
+  context?: HAEntity['context'];
+}
+
+export interface HAStateChangedData {
+  entity_id: string;
+  old_state: HAEntity | null;
+  new_state: HAEntity | null;
+}
+
+/**
+ * Compressed state as sent by subscribe_entities
+ * s=state, a=attributes, c=context (id or object), lc/lu=last changed/updated (epoch seconds)
+ */
+export interface HACompressedState {
+  s?: string;
+  a?: Record<string, unknown>;
+  c?: string | { id: string; parent_id?: string; user_id?: string };
+  lc?: number;
+  lu?: number;
+}
+
+export interface HAEntitiesDiff {
+  a?: Record<string, HACompressedState>; // Added (full state)
+  c?: Record<string, { '+'?: HACompressedState; '-'?: { a?: string[] } }>; // Changed
+  r?: string[]; // Removed
+}
+
+export interface HAServiceTarget {
+  entity_id?: string | string[];
+  device_id?: string | string[];
+  area_id?: string | string[];
+}
+
+export interface HAServiceCallResult {
+  context: HAEntity['context'];
+  response?: unknown; // Only for services that return data
+}
+
+interface Subscription {
+  id: number;
+  message: Record<string, unknown>;
+  handler: (payload: unknown) => void; // Receives the `event` field of event messages
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the envelope of a subscribe_events payload (the data shape is up to the event type)
+ */
+function isHAEvent<T>(payload: unknown): payload is HAEvent<T> {
+  return isRecord(payload) && typeof payload.event_type === 'string' && isRecord(payload.data);
+}
+
+function isEntitiesDiff(payload: unknown): payload is HAEntitiesDiff {
+  return isRecord(payload);
+}
+
 export class SupervisorClient {
   private logger = new Logger('SupervisorClient');
   private token: string;
@@ -60,6 +125,8 @@ export class SupervisorClient {
     resolve: (value: unknown) => void;
     reject: (error: Error) => void;
   }>();
+  private subscriptions = new Map<number, Subscription>();
+  private reconnectListeners = new Set<() => void>();
 
   // Reconnection handling
   private reconnectAttempts = 0;
@@ -120,6 +187,19 @@ export class SupervisorClient {
             reject(new Error('Authentication failed'));
           }
 
+          // Handle subscription events
+          if (message.type === 'event' && message.id !== undefined) {
+            const subscription = this.subscriptions.get(message.id);
+            if (subscription) {
+              try {
+                subscription.handler(message.event);
+              } catch (error) {
+                this.logger.error(`Subscription handler failed (${message.id})`, error);
+              }
+            }
+            return;
+          }
+
           // Handle result messages
           if (message.id !== undefined) {
             const pending = this.pendingRequests.get(message.id);
@@ -186,6 +266,7 @@ export class SupervisorClient {
       pending.reject(new Error('Client disconnected'));
     }
     this.pendingRequests.clear();
+    this.subscriptions.clear();
   }
 
   private async reconnect(): Promise<void> {
@@ -211,6 +292,8 @@ export class SupervisorClient {
       await this.connect();
       this.isReconnecting = false;
       this.logger.info('Reconnection successful');
+      await this.resubscribe();
+      this.notifyReconnected();
     } catch (error) {
       this.logger.error('Reconnection attempt failed', error);
       this.isReconnecting = false;
@@ -218,6 +301,84 @@ export class SupervisorClient {
     }
   }
 
+  /**
+   * Re-establish subscriptions on a new connection (HA subscription IDs are per-connection)
+   */
+  private async resubscribe(): Promise<void> {
+    const subscriptions = Array.from(this.subscriptions.values());
+    this.subscriptions.clear();
+
+    for (const subscription of subscriptions) {
+      try {
+        await this.establish(subscription);
+      } catch (error) {
+        this.logger.error(`Failed to restore subscription ${subscription.message.type}`, error);
+      }
+    }
+  }
+
+  private notifyReconnected(): void {
+    for (const listener of this.reconnectListeners) {
+      try {
+        listener();
+      } catch (error) {
+        this.logger.error('Reconnect listener failed', error);
+      }
+    }
+  }
+
+  /**
+   * Register a callback invoked after the WebSocket reconnects
+   * Events may have been missed while disconnected, so callers should resync.
+   * Returns an unregister function.
+   */
+  onReconnected(listener: () => void): () => void {
+    this.reconnectListeners.add(listener);
+    return () => {
+      this.reconnectListeners.delete(listener);
+    };
+  }
+
+  private async establish(subscription: Subscription): Promise<void> {
+    // Register before sending so events that race the result are not dropped
+    const id = this.messageId;
+    subscription.id = id;
+    this.subscriptions.set(id, subscription);
+
+    try {
+      await this.sendMessage(subscription.message.type as string, subscription.message);
+    } catch (error) {
+      this.subscriptions.delete(id);
+      throw error;
+    }
+  }
+
+  private async subscribe<T>(
+    message: Record<string, unknown>,
+    isPayload: (payload: unknown) => payload is T,
+    handler: (payload: T) => void
+  ): Promise<() => Promise<void>> {
+    const subscription: Subscription = {
+      id: 0,
+      message,
+      handler: (payload) => {
+        if (isPayload(payload)) {
+          handler(payload);
+        } else {
+          this.logger.warning(`Ignoring malformed ${message.type} payload`);
+        }
+      },
+    };
+    await this.establish(subscription);
+
+    return async () => {
+      this.subscriptions.delete(subscription.id);
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        await this.sendMessage('unsubscribe_events', { subscription: subscription.id });
+      }
+    };
+  }
+
   private startHeartbeat(): void {
     // Clear any existing interval
     if (this.pingInterval) {
@@ -264,6 +425,37 @@ export class SupervisorClient {
     });
   }
 
+  /**
+   * Subscribe to Home Assistant bus events (all events if eventType is omitted)
+   * Survives reconnects. Returns an unsubscribe function.
+   */
+  async subscribeEvents<T = Record<string, unknown>>(
+    eventType: string | undefined,
+    handler: (event: HAEvent<T>) => void
+  ): Promise<() => Promise<void>> {
+    return this.subscribe(
+      eventType ? { type: 'subscribe_events', event_type: eventType } : { type: 'subscribe_events' },
+      isHAEvent<T>,
+      handler
+    );
+  }
+
+  /**
+   * Subscribe to compressed entity state diffs (initial snapshot, then changes)
+   * Survives reconnects; the first diff after a reconnect is a full snapshot again.
+   * Returns an unsubscribe function.
+   */
+  async subscribeEntities(
+    handler: (diff: HAEntitiesDiff) => void,
+    entityIds?: string[]
+  ): Promise<() => Promise<void>> {
+    return this.subscribe(
+      entityIds ? { type: 'subscribe_entities', entity_ids: entityIds } : { type: 'subscribe_entities' },
+      isEntitiesDiff,
+      handler
+    );
+  }
+
   async getStates(): Promise<HAEntity[]> {
     return this.sendMessage('get_states');
   }
@@ -293,6 +485,43 @@ export class SupervisorClient {
     return result;
   }
 
+  /**
+   * Raw automation config (as written in YAML or the UI editor)
+   */
+  async getAutomationConfig(entityId: string): Promise<Record<string, unknown>> {
+    const result = await this.sendMessage<{ config: Record<string, unknown> }>('automation/config', {
+      entity_id: entityId,
+    });
+    return result.config;
+  }
+
+  /**
+   * Raw script config (as written in YAML or the UI editor)
+   */
+  async getScriptConfig(entityId: string): Promise<Record<string, unknown>> {
+    const result = await this.sendMessage<{ config: Record<string, unknown> }>('script/config', {
+      entity_id: entityId,
+    });
+    return result.config;
+  }
+
+  /**
+   * Call a service (actuation; callers are responsible for policy checks)
+   */
+  async callService(
+    domain: string,
+    service: string,
+    data?: Record<string, unknown>,
+    target?: HAServiceTarget
+  ): Promise<HAServiceCallResult> {
+    return this.sendMessage<HAServiceCallResult>('call_service', {
+      domain,
+      service,
+      ...(data ? { service_data: data } : {}),
+      ...(target ? { target } : {}),
+    });
+  }
+
   async renderTemplate(template: string): Promise<string> {
     const result = await this.sendMessage<string>('render_template', {
       template,
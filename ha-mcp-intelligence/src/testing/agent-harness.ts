@@ -0,0 +1,144 @@
+/**
+ * Test fixtures for the agent: a scripted model provider and a fully wired agent
+ * (sessions, runner and MCP tools) persisting to a temporary directory
+ *
+ * Only imported by specs; excluded from the build.
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ArtifactStore } from '../agent/artifact-store.js';
+import { ContinuationEventBus } from '../agent/continuation-events.js';
+import { ContinuationRunner } from '../agent/continuation-runner.js';
+import { FileLayout } from '../agent/file-layout.js';
+import { IdempotencyIndex } from '../agent/idempotency-index.js';
+import { ProviderRegistry } from '../agent/providers/provider-registry.js';
+import { SessionManager } from '../agent/session-manager.js';
+import { ToolRegistry } from '../agent/tool-registry.js';
+import { AgentTools } from '../tools/agent-tools.js';
+import type { AgentToolsConfig } from '../tools/agent-tools.js';
+import type { SessionManagerConfig } from '../agent/session-manager.js';
+import type {
+  ModelChatRequest,
+  ModelChatResponse,
+  ModelProvider,
+  ModelStreamChunk,
+} from '../agent/types.js';
+import type { SupervisorClient } from '../server/supervisor-client.js';
+import type { BackgroundIndexer } from '../intelligence/background-indexer.js';
+
+// A reply, or a function producing one (to hold a model call open or fail it)
+export type ScriptedReply = ModelChatResponse | ((request: ModelChatRequest) => Promise<ModelChatResponse>);
+
+/**
+ * Model provider that replays scripted replies in order and records what it was sent
+ */
+export class ScriptedProvider implements ModelProvider {
+  readonly name = 'scripted';
+  readonly requests: ModelChatRequest[] = [];
+  private replies: ScriptedReply[] = [];
+
+  script(...replies: ScriptedReply[]): this {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  async chat(request: ModelChatRequest): Promise<ModelChatResponse> {
+    // The loop appends to the same array, so keep a snapshot of this call
+    const snapshot = { ...request, messages: [...request.messages] };
+    this.requests.push(snapshot);
+
+    const reply = this.replies.shift();
+    if (!reply) {
+      throw new Error('Script exhausted');
+    }
+    return typeof reply === 'function' ? reply(snapshot) : reply;
+  }
+
+  async *stream(): AsyncGenerator<ModelStreamChunk> {
+    throw new Error('Streaming is not scripted');
+  }
+}
+
+export function toolCall(id: string, name: string, args: unknown = {}): ModelChatResponse {
+  return { content: `calling ${name}`, toolCalls: [{ id, name, arguments: args }] };
+}
+
+export function answer(content: string): ModelChatResponse {
+  return { content, toolCalls: [] };
+}
+
+export interface AgentHarness {
+  dataPath: string;
+  store: FileLayout;
+  provider: ScriptedProvider;
+  tools: ToolRegistry;
+  sessions: SessionManager;
+  runner: ContinuationRunner;
+  agentTools: AgentTools;
+  cleanup(): Promise<void>;
+}
+
+export interface AgentHarnessOptions {
+  sessions?: Partial<SessionManagerConfig>;
+  agentTools?: Partial<AgentToolsConfig>;
+  confirmationTimeoutMs?: number;
+}
+
+/**
+ * Wire up an agent the way index.ts does, against the scripted provider
+ * Register tools on harness.tools before starting continuations.
+ */
+export async function createAgentHarness(options: AgentHarnessOptions = {}): Promise<AgentHarness> {
+  const dataPath = await mkdtemp(join(tmpdir(), 'ha-agent-test-'));
+  const store = new FileLayout(dataPath);
+
+  const sessions = new SessionManager({
+    dataPath,
+    store,
+    defaultModel: { provider: 'scripted', modelId: 'test' },
+    ...options.sessions,
+  });
+  await sessions.init();
+
+  const provider = new ScriptedProvider();
+  const providers = new ProviderRegistry();
+  providers.register(provider);
+
+  const artifactStore = new ArtifactStore(join(dataPath, 'artifacts'));
+  await artifactStore.init();
+
+  const tools = new ToolRegistry();
+  const events = new ContinuationEventBus();
+  const runner = new ContinuationRunner({
+    dataPath,
+    store,
+    toolRegistry: tools,
+    artifactStore,
+    haClient: {} as SupervisorClient,
+    indexer: {} as BackgroundIndexer,
+    providers,
+    events,
+    confirmationTimeoutMs: options.confirmationTimeoutMs,
+  });
+
+  const agentTools = new AgentTools({
+    sessionManager: sessions,
+    continuationRunner: runner,
+    events,
+    idempotency: new IdempotencyIndex(store),
+    ...options.agentTools,
+  });
+
+  return {
+    dataPath,
+    store,
+    provider,
+    tools,
+    sessions,
+    runner,
+    agentTools,
+    cleanup: () => rm(dataPath, { recursive: true, force: true }),
+  };
+}
@@ -0,0 +1,420 @@
+import { answer, createAgentHarness, toolCall } from '../testing/agent-harness.js';
+import type { AgentHarness } from '../testing/agent-harness.js';
+import { IdempotencyIndex } from '../agent/idempotency-index.js';
+import { DEFAULTS } from '../agent/types.js';
+import type { SessionPolicy } from '../agent/types.js';
+import type { Principal } from '../server/auth.js';
+
+const alice: Principal = { id: 'ha:alice', name: 'Alice', source: 'home_assistant', isAdmin: false };
+const bob: Principal = { id: 'ha:bob', name: 'Bob', source: 'home_assistant', isAdmin: false };
+const admin: Principal = { id: 'api_key:ops', name: 'ops', source: 'api_key', isAdmin: true };
+
+describe('AgentTools confirmation workflow', () => {
+  let harness: AgentHarness;
+  let unlocked: string[];
+
+  beforeEach(async () => {
+    harness = await createAgentHarness({
+      sessions: { policyCeiling: { ...DEFAULTS.policyCeiling, actuation: 'everyone' } },
+    });
+    unlocked = [];
+    harness.tools.register({
+      name: 'unlock_door',
+      description: 'Unlock a door',
+      inputSchema: { type: 'object' },
+      outputSchema: { type: 'object' },
+      safety: { requiresActuation: true, riskLevel: 'high' },
+      invoke: async (args) => {
+        unlocked.push((args as { entity_id: string }).entity_id);
+        return { unlocked: true };
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  async function awaitingConfirmation(owner: Principal) {
+    harness.provider.script(toolCall('call-1', 'unlock_door', { entity_id: 'lock.front' }), answer('Unlocked.'));
+
+    const { session_id } = await harness.agentTools.startSession(
+      { policy: { ...DEFAULTS.policy, allowActuation: true } },
+      owner
+    );
+    const { continuation_id } = await harness.agentTools.sendMessage({ session_id, message: 'Unlock the front door' });
+    const waiting = await harness.agentTools.awaitContinuation({ session_id, continuation_id, timeout_ms: 5000 });
+    expect(waiting.status).toBe('awaiting_confirmation');
+
+    return { session_id, continuation_id };
+  }
+
+  it("does not let another principal approve a session's pending action", async () => {
+    const { session_id, continuation_id } = await awaitingConfirmation(alice);
+
+    await expect(harness.agentTools.approve({ continuation_id }, bob)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(harness.agentTools.reject({ continuation_id }, bob)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(harness.agentTools.cancel({ continuation_id }, bob)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect((await harness.agentTools.listPendingActions({}, bob)).pending_actions).toEqual([]);
+    expect(unlocked).toEqual([]);
+
+    expect((await harness.agentTools.listPendingActions({}, alice)).pending_actions).toHaveLength(1);
+    expect(await harness.agentTools.approve({ continuation_id }, alice)).toEqual({ status: 'approved' });
+
+    const done = await harness.agentTools.awaitContinuation({ session_id, continuation_id, timeout_ms: 5000 });
+    expect(done.status).toBe('completed');
+    expect(unlocked).toEqual(['lock.front']);
+  });
+
+  it('lets admins act on any session', async () => {
+    const { session_id, continuation_id } = await awaitingConfirmation(alice);
+
+    expect((await harness.agentTools.listPendingActions({ session_id }, admin)).pending_actions).toHaveLength(1);
+    expect(await harness.agentTools.reject({ continuation_id, reason: 'not now' }, admin)).toEqual({
+      status: 'rejected',
+    });
+
+    const done = await harness.agentTools.awaitContinuation({ session_id, continuation_id, timeout_ms: 5000 });
+    expect(done.status).toBe('completed');
+    expect(unlocked).toEqual([]);
+  });
+
+  it('reports unknown continuations as not found', async () => {
+    expect(await harness.agentTools.approve({ continuation_id: 'missing' }, bob)).toEqual({ status: 'not_found' });
+  });
+});
+
+describe('AgentTools policy ceiling', () => {
+  let harness: AgentHarness;
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  const unrestricted = { allowActuation: true, allowlistedServices: ['*'], requireConfirmation: false };
+
+  async function policyOf(principal: Principal, policy: Partial<SessionPolicy> = unrestricted) {
+    const { session_id } = await harness.agentTools.startSession({ policy }, principal);
+    return harness.sessions.getSession(session_id)!.policy;
+  }
+
+  it('only lets admins enable actuation by default', async () => {
+    harness = await createAgentHarness();
+
+    expect((await policyOf(alice)).allowActuation).toBe(false);
+    expect(await policyOf(admin)).toMatchObject(unrestricted);
+  });
+
+  it('caps service lists and confirmation at the ceiling', async () => {
+    harness = await createAgentHarness({
+      sessions: {
+        policyCeiling: {
+          actuation: 'everyone',
+          allowlistedServices: ['light.*', 'switch.turn_on'],
+          denylistedServices: ['light.turn_off'],
+          requireConfirmation: true,
+        },
+      },
+    });
+
+    const policy = await policyOf(alice, { ...unrestricted, allowlistedServices: ['*', 'light.turn_on', 'cover.*'] });
+
+    expect(policy).toMatchObject({
+      allowActuation: true,
+      allowlistedServices: ['light.*', 'switch.turn_on', 'light.turn_on'],
+      denylistedServices: ['light.turn_off'],
+      requireConfirmation: true,
+    });
+  });
+
+  it('never allows actuation when the ceiling disables it', async () => {
+    harness = await createAgentHarness({
+      sessions: { policyCeiling: { ...DEFAULTS.policyCeiling, actuation: 'disabled' } },
+    });
+
+    expect((await policyOf(admin)).allowActuation).toBe(false);
+  });
+});
+
+describe('AgentTools session access', () => {
+  let harness: AgentHarness;
+  let sessionId: string;
+  let continuationId: string;
+
+  beforeEach(async () => {
+    harness = await createAgentHarness();
+    harness.provider.script(answer('Done.'));
+    sessionId = (await harness.agentTools.startSession({}, alice)).session_id;
+    continuationId = (await harness.agentTools.sendMessage({ session_id: sessionId, message: 'hi' }, alice))
+      .continuation_id;
+    await harness.agentTools.awaitContinuation({ session_id: sessionId, continuation_id: continuationId }, alice);
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it("refuses every session-scoped tool on another principal's session", async () => {
+    const session_id = sessionId;
+    const continuation_id = continuationId;
+    const calls = [
+      () => harness.agentTools.sendMessage({ session_id, message: 'hello' }, bob),
+      () => harness.agentTools.awaitContinuation({ session_id, continuation_id }, bob),
+      () => harness.agentTools.getTranscript({ session_id, include_steps: true }, bob),
+      () => harness.agentTools.getContinuation({ session_id, continuation_id }, bob),
+      () => harness.agentTools.getSteps({ session_id, continuation_id, format: 'otlp' }, bob),
+      () => harness.agentTools.getSession({ session_id }, bob),
+      () => harness.agentTools.pin({ session_id, content: 'note' }, bob),
+      () => harness.agentTools.unpin({ session_id, pin_id: 'p' }, bob),
+      () => harness.agentTools.addFact({ session_id, fact: 'fact' }, bob),
+      () => harness.agentTools.forgetFact({ session_id, fact_id: 'f' }, bob),
+      () => harness.agentTools.listMemory({ session_id }, bob),
+      () => harness.agentTools.endSession({ session_id }, bob),
+    ];
+
+    for (const call of calls) {
+      await expect(call()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    }
+    expect(harness.provider.requests).toHaveLength(1);
+    expect(harness.sessions.getSession(sessionId)?.status).toBe('active');
+  });
+
+  it('lets the owner and admins read the session', async () => {
+    expect((await harness.agentTools.getTranscript({ session_id: sessionId }, alice)).total).toBe(2);
+    const read = await harness.agentTools.getContinuation(
+      { session_id: sessionId, continuation_id: continuationId },
+      admin
+    );
+    expect(read).toMatchObject({ continuation: { status: 'completed' } });
+  });
+
+  it("does not stream another session's continuation", async () => {
+    let reply!: () => void;
+    harness.provider.script(() => new Promise((resolve) => (reply = () => resolve(answer('Later.')))));
+    const { continuation_id } = await harness.agentTools.sendMessage(
+      { session_id: sessionId, message: 'again' },
+      alice
+    );
+    const bobSession = (await harness.agentTools.startSession({}, bob)).session_id;
+
+    const leaked = jest.fn();
+    await expect(harness.agentTools.watch({ session_id: bobSession, continuation_id }, leaked)).rejects.toThrow(
+      'not found'
+    );
+
+    const events: string[] = [];
+    await harness.agentTools.watch({ session_id: sessionId, continuation_id }, (event) => events.push(event.type));
+    reply();
+    await harness.agentTools.awaitContinuation({ session_id: sessionId, continuation_id }, alice);
+
+    expect(leaked).not.toHaveBeenCalled();
+    expect(events[0]).toBe('status');
+    expect(events).toContain('final');
+  });
+
+  it('only lists sessions the principal may use', async () => {
+    await harness.agentTools.startSession({}, bob);
+
+    const listed = async (principal: Principal) =>
+      (await harness.agentTools.listSessions({}, principal)).sessions.map((s) => (s as { id: string }).id);
+
+    expect(await listed(alice)).toEqual([sessionId]);
+    expect(await listed(admin)).toHaveLength(2);
+  });
+
+  it('only lists continuations of sessions the principal may use', async () => {
+    harness.provider.script(answer('Done.'));
+    const other = (await harness.agentTools.startSession({}, bob)).session_id;
+    const { continuation_id } = await harness.agentTools.sendMessage({ session_id: other, message: 'hi' }, bob);
+    await harness.agentTools.awaitContinuation({ session_id: other, continuation_id }, bob);
+
+    const listed = async (principal: Principal) =>
+      (await harness.agentTools.listContinuations({ limit: 1 }, principal)).continuations.map(
+        (c) => (c as { continuation_id: string }).continuation_id
+      );
+
+    expect(await listed(alice)).toEqual([continuationId]);
+    expect(await listed(bob)).toEqual([continuation_id]);
+    expect(await harness.agentTools.listContinuations({ limit: 2 }, admin)).toMatchObject({
+      has_more: false,
+      continuations: [{ session_id: other }, { session_id: sessionId }],
+    });
+    await expect(harness.agentTools.listContinuations({ session_id: other }, alice)).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+    });
+  });
+
+  it('gives one-shot sessions to the caller', async () => {
+    harness.provider.script(answer('Sure.'));
+    const owned = jest.spyOn(harness.sessions, 'createSession');
+
+    await harness.agentTools.ask({ message: 'hi' }, bob);
+
+    expect(owned).toHaveBeenCalledWith(expect.objectContaining({ ownerId: bob.id }));
+  });
+});
+
+describe('AgentTools idempotent send_message', () => {
+  let harness: AgentHarness;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    harness = await createAgentHarness();
+    sessionId = (await harness.agentTools.startSession({})).session_id;
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  const send = (message: string, idempotencyKey = 'key-1') =>
+    harness.agentTools.sendMessage({ session_id: sessionId, message, idempotency_key: idempotencyKey });
+
+  it('returns the original continuation for a retried key', async () => {
+    harness.provider.script(answer('Done.'));
+
+    const first = await send('Check the porch light');
+    const retry = await send('Check the porch light');
+
+    expect(first.replayed).toBe(false);
+    expect(retry).toMatchObject({ continuation_id: first.continuation_id, replayed: true });
+    await harness.agentTools.awaitContinuation({ session_id: sessionId, continuation_id: first.continuation_id });
+    expect(harness.provider.requests).toHaveLength(1);
+  });
+
+  it('creates a single continuation for concurrent retries', async () => {
+    harness.provider.script(answer('Done.'));
+
+    const results = await Promise.all([send('Check the porch light'), send('Check the porch light')]);
+
+    expect(new Set(results.map((r) => r.continuation_id)).size).toBe(1);
+    expect(results.map((r) => r.replayed).sort()).toEqual([false, true]);
+    await harness.agentTools.awaitContinuation({ session_id: sessionId, continuation_id: results[0].continuation_id });
+    expect(await harness.store.listContinuations(sessionId)).toHaveLength(1);
+  });
+
+  it('rejects a reused key with a different message', async () => {
+    harness.provider.script(answer('Done.'));
+    const first = await send('Check the porch light');
+
+    await expect(send('Check the garage door')).rejects.toMatchObject({ code: 'IDEMPOTENCY_CONFLICT' });
+    await harness.agentTools.awaitContinuation({ session_id: sessionId, continuation_id: first.continuation_id });
+  });
+
+  it('remembers keys across a restart', async () => {
+    harness.provider.script(answer('Done.'));
+    const first = await send('Check the porch light');
+    await harness.agentTools.awaitContinuation({ session_id: sessionId, continuation_id: first.continuation_id });
+
+    const payload = { message: 'Check the porch light' };
+    const restarted = await new IdempotencyIndex(harness.store).claim(sessionId, 'key-1', payload, async () => 'new');
+
+    expect(restarted).toEqual({ continuationId: first.continuation_id, replayed: true });
+  });
+});
+
+describe('AgentTools single-flight sessions', () => {
+  let harness: AgentHarness;
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  // A model call that does not return until released
+  function heldReply(content: string) {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    return { release, reply: async () => gate.then(() => answer(content)) };
+  }
+
+  async function until(condition: () => boolean) {
+    while (!condition()) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  async function startSession(whenBusy: 'queue' | 'reject') {
+    harness = await createAgentHarness({ agentTools: { whenBusy } });
+    return (await harness.agentTools.startSession({})).session_id;
+  }
+
+  it('queues a second message until the running continuation finishes', async () => {
+    const session_id = await startSession('queue');
+    const first = heldReply('First.');
+    harness.provider.script(first.reply, answer('Second.'));
+
+    const a = await harness.agentTools.sendMessage({ session_id, message: 'one' });
+    const b = await harness.agentTools.sendMessage({ session_id, message: 'two' });
+    await until(() => harness.provider.requests.length === 1);
+
+    expect(harness.sessions.getSession(session_id)?.locks.locked).toBe(true);
+    expect((await harness.runner.getContinuation(session_id, b.continuation_id))?.status).toBe('pending');
+
+    first.release();
+    const done = await harness.agentTools.awaitContinuation({ session_id, continuation_id: b.continuation_id });
+
+    expect(done.response).toMatchObject({ finalMessage: 'Second.' });
+    expect((await harness.runner.getContinuation(session_id, a.continuation_id))?.status).toBe('completed');
+    expect(harness.provider.requests.map((r) => r.messages.at(-1)?.content)).toEqual(['one', 'two']);
+    await until(() => !harness.sessions.getSession(session_id)?.locks.locked);
+  });
+
+  it('rejects a second message in reject mode', async () => {
+    const session_id = await startSession('reject');
+    const first = heldReply('First.');
+    harness.provider.script(first.reply);
+
+    const a = await harness.agentTools.sendMessage({ session_id, message: 'one' });
+
+    await expect(harness.agentTools.sendMessage({ session_id, message: 'two' })).rejects.toMatchObject({
+      code: 'SESSION_BUSY',
+    });
+
+    first.release();
+    await harness.agentTools.awaitContinuation({ session_id, continuation_id: a.continuation_id });
+  });
+
+  it('drops a queued continuation that is cancelled before it starts', async () => {
+    const session_id = await startSession('queue');
+    const first = heldReply('First.');
+    harness.provider.script(first.reply);
+
+    const a = await harness.agentTools.sendMessage({ session_id, message: 'one' });
+    const b = await harness.agentTools.sendMessage({ session_id, message: 'two' });
+
+    expect(await harness.agentTools.cancel({ continuation_id: b.continuation_id })).toEqual({ status: 'cancelled' });
+
+    first.release();
+    await harness.agentTools.awaitContinuation({ session_id, continuation_id: a.continuation_id });
+    expect(harness.provider.requests).toHaveLength(1);
+    expect((await harness.runner.getContinuation(session_id, b.continuation_id))?.status).toBe('cancelled');
+  });
+});
+
+describe('AgentTools get_steps', () => {
+  let harness: AgentHarness;
+
+  beforeEach(async () => {
+    harness = await createAgentHarness();
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it('rejects unknown step types instead of matching nothing', async () => {
+    harness.provider.script(answer('Done.'));
+    const { session_id } = await harness.agentTools.startSession({});
+    const { continuation_id } = await harness.agentTools.sendMessage({ session_id, message: 'hi' });
+    await harness.agentTools.awaitContinuation({ session_id, continuation_id });
+
+    const steps = await harness.agentTools.getSteps({ session_id, continuation_id, types: ['plan', 'summary'] });
+    expect(steps).toMatchObject({ status: 'completed' });
+
+    for (const types of [['plan', 'tool_calls'], [''], 'plan']) {
+      await expect(
+        harness.agentTools.getSteps({ session_id, continuation_id, types: types as string[] })
+      ).rejects.toThrow('Invalid types');
+    }
+  });
+});
@@ -5,37 +5,120 @@
 
 import { SessionManager } from '../agent/session-manager.js';
 import { ContinuationRunner } from '../agent/continuation-runner.js';
-import type { ModelConfig, Budgets, SessionPolicy, UserPreferences } from '../agent/types.js';
+import { ContinuationEventBus, ContinuationEventListener } from '../agent/continuation-events.js';
+import { IdempotencyIndex } from '../agent/idempotency-index.js';
+import { AgentError } from '../agent/errors.js';
+import { queryStepLog, toOtlpTrace } from '../agent/step-trace.js';
+import type { OtlpTrace, StepView } from '../agent/step-trace.js';
+import type { Principal } from '../server/auth.js';
+import { DEFAULTS, STEP_LOG_TYPES } from '../agent/types.js';
+import type {
+  AgentSession,
+  Continuation,
+  ContinuationStatus,
+  ModelConfig,
+  StepLogType,
+  Budgets,
+  SessionPolicy,
+  UserPreferences,
+} from '../agent/types.js';
 
 export interface AgentToolsConfig {
   sessionManager: SessionManager;
   continuationRunner: ContinuationRunner;
+  events: ContinuationEventBus;
+  idempotency: IdempotencyIndex;
+  whenBusy?: BusySessionMode;
+  maxOpenContinuations?: number;
+}
+
+// What send_message does when a session already runs maxOpenContinuations
+export type BusySessionMode = 'queue' | 'reject';
+
+/**
+ * Epoch milliseconds or an ISO 8601 date
+ */
+function parseTime(value: number | string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = typeof value === 'number' || /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return time;
+}
+
+/**
+ * Step types to filter a step log by; unknown names are rejected rather than matching nothing
+ */
+function parseStepTypes(values: string[] | undefined): StepLogType[] | undefined {
+  if (values === undefined) {
+    return undefined;
+  }
+  // MCP arguments are not schema-checked, so this may not even be an array
+  const invalid = Array.isArray(values)
+    ? values.filter((v) => !(STEP_LOG_TYPES as readonly unknown[]).includes(v))
+    : [values];
+  if (invalid.length > 0) {
+    const names = invalid.map((v) => JSON.stringify(v)).join(', ');
+    throw new Error(`Invalid types: ${names} (expected ${STEP_LOG_TYPES.join(', ')})`);
+  }
+  return values as StepLogType[];
+}
+
+interface QueuedContinuation {
+  continuation: Continuation;
+  run: () => Promise<void>;
 }
 
 export class AgentTools {
   private sessionManager: SessionManager;
   private continuationRunner: ContinuationRunner;
+  private events: ContinuationEventBus;
+  private idempotency: IdempotencyIndex;
+  private whenBusy: BusySessionMode;
+  private maxOpen: number;
   private executionPromises = new Map<string, Promise<void>>();
 
+  // Single-flight per session: admitted counts queued + running continuations
+  private admitted = new Map<string, number>();
+  private running = new Map<string, number>();
+  private queues = new Map<string, QueuedContinuation[]>();
+
   constructor(config: AgentToolsConfig) {
     this.sessionManager = config.sessionManager;
     this.continuationRunner = config.continuationRunner;
+    this.events = config.events;
+    this.idempotency = config.idempotency;
+    this.whenBusy = config.whenBusy ?? 'queue';
+    this.maxOpen = Math.max(1, config.maxOpenContinuations ?? DEFAULTS.concurrency.maxOpenContinuationsPerSession);
   }
 
   /**
    * MCP Tool: ha_agent.start_session
-   * Start a new long-lived session
-   */
-  async startSession(args: {
-    model?: ModelConfig;
-    budgets?: Budgets;
-    policy?: SessionPolicy;
-    preferences?: UserPreferences;
-  }): Promise<{ session_id: string }> {
+   * Start a new long-lived session, owned by the caller
+   * The requested policy is capped by the operator's policy ceiling.
+   */
+  async startSession(
+    args: {
+      model?: ModelConfig;
+      budgets?: Partial<Budgets>;
+      policy?: Partial<SessionPolicy>;
+      preferences?: UserPreferences;
+    },
+    principal?: Principal
+  ): Promise<{ session_id: string }> {
+    if (args.model) {
+      this.continuationRunner.validateModel(args.model);
+    }
+
     const session = await this.sessionManager.createSession({
+      ownerId: principal?.id,
       model: args.model,
       budgets: args.budgets,
       policy: args.policy,
+      admin: !principal || principal.isAdmin,
       preferences: args.preferences,
     });
 
@@ -45,76 +128,307 @@ export class AgentTools {
   /**
    * MCP Tool: ha_agent.send_message
    * Send a message in a session (creates continuation)
+   * A repeated idempotency_key returns the continuation the first request created.
    */
-  async sendMessage(args: {
-    session_id: string;
-    message: string;
-    allow_tools?: boolean;
-    max_steps?: number;
-    time_budget_ms?: number;
-    idempotency_key?: string;
-  }): Promise<{ continuation_id: string; acknowledged: boolean }> {
+  async sendMessage(
+    args: {
+      session_id: string;
+      message: string;
+      allow_tools?: boolean;
+      max_steps?: number;
+      time_budget_ms?: number;
+      idempotency_key?: string;
+      model?: ModelConfig;
+      stream?: boolean;
+    },
+    principal?: Principal
+  ): Promise<{ continuation_id: string; acknowledged: boolean; status: string; replayed?: boolean }> {
     const session = this.sessionManager.getSession(args.session_id);
     if (!session) {
       throw new Error(`Session ${args.session_id} not found`);
     }
+    this.assertSessionAccess(session.id, principal);
+
+    if (!args.idempotency_key) {
+      const continuationId = await this.startContinuation(session, args);
+      return { continuation_id: continuationId, acknowledged: true, status: 'pending' };
+    }
+
+    const payload = {
+      message: args.message,
+      allow_tools: args.allow_tools,
+      max_steps: args.max_steps,
+      time_budget_ms: args.time_budget_ms,
+      model: args.model,
+      stream: args.stream,
+    };
+    const claim = await this.idempotency.claim(session.id, args.idempotency_key, payload, () =>
+      this.startContinuation(session, args)
+    );
+    const continuation = await this.continuationRunner.getContinuation(session.id, claim.continuationId);
+
+    return {
+      continuation_id: claim.continuationId,
+      acknowledged: true,
+      status: continuation?.status ?? 'unknown',
+      replayed: claim.replayed,
+    };
+  }
+
+  /**
+   * Create a continuation, record the user's turn and schedule it for execution
+   * Throws SESSION_BUSY (reject mode) or SESSION_QUEUE_FULL (queue mode) when the session is at capacity.
+   */
+  private async startContinuation(
+    session: AgentSession,
+    args: Parameters<AgentTools['sendMessage']>[0]
+  ): Promise<string> {
+    this.admit(session.id);
+
+    let continuation: Continuation;
+    try {
+      continuation = await this.createTurn(session, args);
+    } catch (err) {
+      this.release(session.id);
+      throw err;
+    }
+
+    this.enqueue(session.id, continuation, () => this.continuationRunner.execute(session, continuation));
+    return continuation.id;
+  }
+
+  /**
+   * Create a continuation and record the user's turn
+   */
+  private async createTurn(
+    session: AgentSession,
+    args: Parameters<AgentTools['sendMessage']>[0]
+  ): Promise<Continuation> {
+    if (args.max_steps !== undefined && !(Number.isInteger(args.max_steps) && args.max_steps > 0)) {
+      throw new Error('max_steps must be a positive integer');
+    }
+    if (args.time_budget_ms !== undefined && !(Number.isFinite(args.time_budget_ms) && args.time_budget_ms > 0)) {
+      throw new Error('time_budget_ms must be a positive number');
+    }
 
-    // Create continuation
     const continuation = await this.continuationRunner.createContinuation(session, {
       message: args.message,
       allowTools: args.allow_tools ?? true,
       maxSteps: args.max_steps ?? session.budgets.maxSteps,
       timeBudgetMs: args.time_budget_ms ?? session.budgets.maxDurationMs,
       idempotencyKey: args.idempotency_key,
+      model: args.model,
+      stream: args.stream,
     });
 
-    // Add to session
+    // Add to session and record the user's turn
     await this.sessionManager.addContinuation(session.id, continuation.id);
+    await this.sessionManager.addMessage(
+      session.id,
+      {
+        role: 'user',
+        content: args.message,
+        timestamp: continuation.createdAt,
+        continuationId: continuation.id,
+      },
+      {
+        continuationId: continuation.id,
+        role: 'user',
+        timestamp: continuation.createdAt,
+        preview: args.message.substring(0, 100),
+      }
+    );
+
+    return continuation;
+  }
+
+  /**
+   * Reserve a slot for a new continuation (synchronously, so concurrent sends cannot overshoot)
+   */
+  private admit(sessionId: string): void {
+    const admitted = this.admitted.get(sessionId) ?? 0;
+
+    if (this.whenBusy === 'reject' && admitted >= this.maxOpen) {
+      throw new AgentError('SESSION_BUSY', `Session ${sessionId} already has ${admitted} continuation(s) in flight`, {
+        recoverable: true,
+      });
+    }
+    if (admitted >= this.maxOpen + DEFAULTS.concurrency.maxQueuedPerSession) {
+      throw new AgentError('SESSION_QUEUE_FULL', `Session ${sessionId} has ${admitted - this.maxOpen} continuation(s) queued`, {
+        recoverable: true,
+      });
+    }
+
+    this.admitted.set(sessionId, admitted + 1);
+  }
+
+  private release(sessionId: string): void {
+    const admitted = (this.admitted.get(sessionId) ?? 1) - 1;
+    if (admitted > 0) {
+      this.admitted.set(sessionId, admitted);
+    } else {
+      this.admitted.delete(sessionId);
+    }
+  }
+
+  /**
+   * Queue an admitted continuation; it starts once fewer than maxOpen run in its session
+   */
+  private enqueue(sessionId: string, continuation: Continuation, run: () => Promise<void>): void {
+    const queue = this.queues.get(sessionId) ?? [];
+    queue.push({ continuation, run });
+    this.queues.set(sessionId, queue);
+    this.drain(sessionId);
+  }
+
+  /**
+   * Start queued continuations in FIFO order while the session has free slots
+   * The session is locked while any of its continuations runs.
+   */
+  private drain(sessionId: string): void {
+    const queue = this.queues.get(sessionId) ?? [];
+
+    while (queue.length > 0 && (this.running.get(sessionId) ?? 0) < this.maxOpen) {
+      const next = queue.shift()!;
+      if (next.continuation.status === 'cancelled') {
+        // Cancelled before it was queued
+        this.release(sessionId);
+        this.closeTurn(next.continuation).catch((err) =>
+          console.error(`Failed to record the outcome of continuation ${next.continuation.id}:`, err)
+        );
+        continue;
+      }
+
+      const running = (this.running.get(sessionId) ?? 0) + 1;
+      this.running.set(sessionId, running);
+
+      if (running === 1) {
+        this.sessionManager
+          .lock(sessionId, `Running continuation ${next.continuation.id}`)
+          .catch((err) => console.error(`Failed to lock session ${sessionId}:`, err));
+      }
+
+      let execution: Promise<void>;
+      try {
+        execution = next.run();
+      } catch (err) {
+        execution = Promise.reject(err);
+      }
+
+      this.runInBackground(next.continuation, execution.finally(() => this.settle(sessionId)));
+    }
 
-    // Start execution in background (non-blocking) and track the promise
-    const execPromise = this.continuationRunner.execute(session, continuation);
+    if (queue.length === 0) {
+      this.queues.delete(sessionId);
+    }
+  }
+
+  /**
+   * Free a finished continuation's slot, start the next queued one and unlock an idle session
+   */
+  private settle(sessionId: string): void {
+    const running = (this.running.get(sessionId) ?? 1) - 1;
+    if (running > 0) {
+      this.running.set(sessionId, running);
+    } else {
+      this.running.delete(sessionId);
+    }
+    this.release(sessionId);
+
+    this.drain(sessionId);
+
+    if (!this.running.has(sessionId)) {
+      this.sessionManager
+        .unlock(sessionId)
+        .catch((err) => console.error(`Failed to unlock session ${sessionId}:`, err));
+    }
+  }
+
+  /**
+   * Remove a continuation that has not started yet from its session's queue
+   */
+  private dequeue(continuationId: string): QueuedContinuation | undefined {
+    for (const [sessionId, queue] of this.queues) {
+      const index = queue.findIndex((q) => q.continuation.id === continuationId);
+      if (index >= 0) {
+        const [removed] = queue.splice(index, 1);
+        if (queue.length === 0) {
+          this.queues.delete(sessionId);
+        }
+        this.release(sessionId);
+        return removed;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Startup recovery for continuations interrupted by a restart
+   * With resume, those in active sessions continue from their last completed tool result.
+   */
+  async recoverInterrupted(options: { resume: boolean }): Promise<{ interrupted: number; resumed: number }> {
+    let interrupted = 0;
+    let resumed = 0;
+
+    for (const session of this.sessionManager.listSessions()) {
+      const recovered = await this.continuationRunner.recoverSession(session);
+      interrupted += recovered.length;
+
+      if (!options.resume || session.status !== 'active') {
+        continue;
+      }
+
+      for (const continuation of recovered) {
+        try {
+          this.admit(session.id);
+        } catch (err) {
+          console.warn(`Continuation ${continuation.id} left interrupted:`, (err as Error).message);
+          continue;
+        }
+
+        this.enqueue(session.id, continuation, () => this.continuationRunner.resume(session, continuation));
+        resumed++;
+      }
+    }
+
+    return { interrupted, resumed };
+  }
+
+  /**
+   * Track a background execution (non-blocking) until it settles, then close the turn
+   */
+  private runInBackground(continuation: Continuation, execPromise: Promise<void>): void {
     this.executionPromises.set(continuation.id, execPromise);
 
     // Clean up after completion/failure
-    execPromise.finally(() => {
-      this.executionPromises.delete(continuation.id);
-    }).catch((err) => {
-      console.error(`Continuation ${continuation.id} failed:`, err);
-      // Error is already stored in continuation.error by ContinuationRunner
-    });
-
-    return {
-      continuation_id: continuation.id,
-      acknowledged: true,
-    };
+    execPromise
+      .finally(() => {
+        this.executionPromises.delete(continuation.id);
+      })
+      .catch((err) => {
+        console.error(`Continuation ${continuation.id} failed:`, err);
+        // Error is already stored in continuation.error by ContinuationRunner
+      })
+      .then(() => this.closeTurn(continuation))
+      .catch((err) => {
+        console.error(`Failed to record the outcome of continuation ${continuation.id}:`, err);
+      });
   }
 
   /**
-   * MCP Tool: ha_agent.await_continuation
-   * Wait for continuation to complete
+   * Remove a settled continuation from the session's open set, roll its usage into
+   * the session stats and record the assistant's turn
    */
-  async awaitContinuation(args: {
-    continuation_id: string;
-    session_id: string;
-    timeout_ms?: number;
-  }): Promise<{
-    status: string;
-    response?: unknown;
-    artifacts?: unknown[];
-  }> {
-    const continuation = await this.continuationRunner.await(
-      args.session_id,
-      args.continuation_id,
-      args.timeout_ms
-    );
+  private async closeTurn(continuation: Continuation): Promise<void> {
+    await this.sessionManager.removeContinuation(continuation.sessionId, continuation.id);
 
-    // Remove from session's open continuations
-    await this.sessionManager.removeContinuation(args.session_id, continuation.id);
+    if (continuation.usage) {
+      await this.sessionManager.recordUsage(continuation.sessionId, continuation.usage);
+    }
 
-    // Add message to session memory
     if (continuation.response) {
       await this.sessionManager.addMessage(
-        args.session_id,
+        continuation.sessionId,
         {
           role: 'assistant',
           content: continuation.response.finalMessage,
@@ -123,12 +437,44 @@ export class AgentTools {
         },
         {
           continuationId: continuation.id,
+          role: 'assistant',
           timestamp: continuation.updatedAt,
           preview: continuation.response.finalMessage.substring(0, 100),
         }
       );
     }
+  }
 
+  /**
+   * MCP Tool: ha_agent.await_continuation
+   * Wait for continuation to complete (returns early with the pending action if it needs confirmation)
+   */
+  async awaitContinuation(
+    args: {
+      continuation_id: string;
+      session_id: string;
+      timeout_ms?: number;
+    },
+    principal?: Principal
+  ): Promise<{
+    status: string;
+    response?: unknown;
+    artifacts?: unknown[];
+    pending_action?: unknown;
+  }> {
+    this.assertSessionAccess(args.session_id, principal);
+
+    const continuation = await this.continuationRunner.await(
+      args.session_id,
+      args.continuation_id,
+      args.timeout_ms
+    );
+
+    if (continuation.status === 'awaiting_confirmation') {
+      return { status: continuation.status, pending_action: continuation.pendingAction };
+    }
+
+    // The turn is recorded in the session when the continuation settles, awaited or not
     return {
       status: continuation.status,
       response: continuation.response,
@@ -136,16 +482,81 @@ export class AgentTools {
     };
   }
 
+  /**
+   * Subscribe to progress events for one continuation, or every continuation in a session
+   * (used by the SSE endpoint). A continuation's current status is replayed first so
+   * late subscribers still see where it stands. Returns an unsubscribe function.
+   */
+  async watch(
+    args: { session_id: string; continuation_id?: string },
+    listener: ContinuationEventListener
+  ): Promise<() => void> {
+    if (!this.sessionManager.getSession(args.session_id)) {
+      throw new Error(`Session ${args.session_id} not found`);
+    }
+
+    if (!args.continuation_id) {
+      return this.events.subscribeSession(args.session_id, listener);
+    }
+
+    // Only subscribe once the continuation is known to belong to this session
+    const found = await this.continuationRunner.getContinuation(args.session_id, args.continuation_id);
+    if (!found) {
+      throw new Error(`Continuation ${args.continuation_id} not found`);
+    }
+
+    const unsubscribe = this.events.subscribeContinuation(found.id, listener);
+    // Re-read after subscribing: it may have moved on (or been resumed) while we looked it up
+    const continuation = (await this.continuationRunner.getContinuation(args.session_id, found.id)) ?? found;
+
+    const snapshot = {
+      sessionId: continuation.sessionId,
+      continuationId: continuation.id,
+      ts: Date.now(),
+    };
+    listener({ ...snapshot, type: 'status', payload: { status: continuation.status } });
+
+    if (this.continuationRunner.isFinalStatus(continuation.status)) {
+      listener({
+        ...snapshot,
+        type: 'final',
+        payload: {
+          status: continuation.status,
+          finalResponse: continuation.response,
+          error: continuation.error,
+        },
+      });
+    }
+
+    return unsubscribe;
+  }
+
   /**
    * MCP Tool: ha_agent.cancel
    * Cancel a running continuation
    */
-  async cancel(args: {
-    continuation_id: string;
-    reason?: string;
-  }): Promise<{ status: string }> {
+  async cancel(
+    args: {
+      continuation_id: string;
+      reason?: string;
+    },
+    principal?: Principal
+  ): Promise<{ status: string }> {
+    const sessionId = this.continuationRunner.getActiveSessionId(args.continuation_id);
+    if (!sessionId) {
+      return { status: 'not_found' };
+    }
+    this.assertSessionAccess(sessionId, principal);
+
+    const queued = this.dequeue(args.continuation_id);
     const cancelled = await this.continuationRunner.cancel(args.continuation_id, args.reason);
 
+    if (queued) {
+      // Never started, so runInBackground will not close the turn
+      await this.closeTurn(queued.continuation);
+      return { status: 'cancelled' };
+    }
+
     if (!cancelled) {
       return { status: 'not_found' };
     }
@@ -153,15 +564,311 @@ export class AgentTools {
     return { status: 'cancelled' };
   }
 
+  /**
+   * MCP Tool: ha_agent.list_pending_actions
+   * List actions waiting for approval in the sessions the caller may access
+   */
+  async listPendingActions(
+    args?: { session_id?: string },
+    principal?: Principal
+  ): Promise<{ pending_actions: unknown[] }> {
+    if (args?.session_id) {
+      this.assertSessionAccess(args.session_id, principal);
+    }
+    const pending = this.continuationRunner
+      .listPendingActions(args?.session_id)
+      .filter((p) => this.canAccessSession(p.sessionId, principal));
+
+    return {
+      pending_actions: pending.map((p) => ({
+        session_id: p.sessionId,
+        continuation_id: p.continuationId,
+        action_id: p.action.id,
+        tool: p.action.tool,
+        args: p.action.args,
+        risk_level: p.action.riskLevel,
+        requested_at: p.action.requestedAt,
+        expires_at: p.action.expiresAt,
+      })),
+    };
+  }
+
+  /**
+   * MCP Tool: ha_agent.approve
+   * Let a continuation carry out the action it is waiting on
+   */
+  async approve(
+    args: {
+      continuation_id: string;
+      action_id?: string;
+      reason?: string;
+    },
+    principal?: Principal
+  ): Promise<{ status: string }> {
+    const sessionId = this.continuationRunner.getActiveSessionId(args.continuation_id);
+    if (!sessionId) {
+      return { status: 'not_found' };
+    }
+    this.assertSessionAccess(sessionId, principal);
+
+    const resolved = this.continuationRunner.resolveConfirmation(
+      args.continuation_id,
+      { approved: true, reason: args.reason },
+      args.action_id
+    );
+
+    return { status: resolved ? 'approved' : 'not_found' };
+  }
+
+  /**
+   * MCP Tool: ha_agent.reject
+   * Deny the action a continuation is waiting on (the agent is told it was rejected)
+   */
+  async reject(
+    args: {
+      continuation_id: string;
+      action_id?: string;
+      reason?: string;
+    },
+    principal?: Principal
+  ): Promise<{ status: string }> {
+    const sessionId = this.continuationRunner.getActiveSessionId(args.continuation_id);
+    if (!sessionId) {
+      return { status: 'not_found' };
+    }
+    this.assertSessionAccess(sessionId, principal);
+
+    const resolved = this.continuationRunner.resolveConfirmation(
+      args.continuation_id,
+      { approved: false, reason: args.reason },
+      args.action_id
+    );
+
+    return { status: resolved ? 'rejected' : 'not_found' };
+  }
+
+  /**
+   * MCP Tool: ha_agent.get_transcript
+   * Page through a session's turns, oldest first, with full turns loaded from their turn files
+   */
+  async getTranscript(
+    args: {
+      session_id: string;
+      offset?: number;
+      limit?: number;
+      include_steps?: boolean;
+    },
+    principal?: Principal
+  ): Promise<{ total: number; offset: number; turns: unknown[] }> {
+    const session = this.sessionManager.getSession(args.session_id);
+    if (!session) {
+      throw new Error(`Session ${args.session_id} not found`);
+    }
+    this.assertSessionAccess(session.id, principal);
+
+    const offset = Math.max(0, args.offset ?? 0);
+    const limit = Math.min(100, Math.max(1, args.limit ?? 20));
+    const page = session.messages.slice(offset, offset + limit);
+
+    const continuations = new Map<string, Continuation | null>();
+    for (const meta of page) {
+      if (!continuations.has(meta.continuationId)) {
+        continuations.set(
+          meta.continuationId,
+          await this.continuationRunner.getContinuation(session.id, meta.continuationId)
+        );
+      }
+    }
+
+    const turns = page.map((meta) => {
+      const continuation = continuations.get(meta.continuationId);
+      const turn: Record<string, unknown> = {
+        continuation_id: meta.continuationId,
+        role: meta.role,
+        timestamp: meta.timestamp,
+      };
+
+      if (!continuation) {
+        // Turn file removed (e.g., by retention); only the preview remains
+        return { ...turn, content: meta.preview, truncated: true };
+      }
+
+      if (meta.role === 'user') {
+        return { ...turn, content: continuation.request.message };
+      }
+
+      return {
+        ...turn,
+        content: continuation.response?.finalMessage ?? meta.preview,
+        status: continuation.status,
+        reasoning_summary: continuation.response?.reasoningSummary,
+        artifacts: continuation.artifacts,
+        error: continuation.error,
+        ...(args.include_steps ? { steps: continuation.stepLog } : {}),
+      };
+    });
+
+    return { total: session.messages.length, offset, turns };
+  }
+
+  /**
+   * MCP Tool: ha_agent.list_continuations
+   * Search continuations across sessions (newest first) by session, status, creation time and text
+   * Without a session_id, non-admins only search the sessions they may use.
+   */
+  async listContinuations(
+    args: {
+      session_id?: string;
+      status?: ContinuationStatus | ContinuationStatus[];
+      created_after?: number | string;
+      created_before?: number | string;
+      query?: string;
+      offset?: number;
+      limit?: number;
+      include_steps?: boolean;
+    },
+    principal?: Principal
+  ): Promise<{ offset: number; has_more: boolean; continuations: unknown[] }> {
+    if (args.session_id) {
+      if (!this.sessionManager.getSession(args.session_id)) {
+        throw new Error(`Session ${args.session_id} not found`);
+      }
+      this.assertSessionAccess(args.session_id, principal);
+    }
+
+    const sessionIds =
+      principal && !principal.isAdmin
+        ? this.sessionManager
+            .listSessions()
+            .filter((s) => this.canAccessSession(s.id, principal))
+            .map((s) => s.id)
+        : undefined;
+
+    const offset = Math.max(0, args.offset ?? 0);
+    const limit = Math.min(100, Math.max(1, args.limit ?? 20));
+    const found = await this.continuationRunner.queryContinuations({
+      sessionId: args.session_id,
+      sessionIds,
+      status: args.status === undefined ? undefined : [args.status].flat(),
+      createdAfter: parseTime(args.created_after, 'created_after'),
+      createdBefore: parseTime(args.created_before, 'created_before'),
+      text: args.query?.trim() || undefined,
+      order: 'desc',
+      offset,
+      limit: limit + 1, // One extra to tell whether there is another page
+    });
+
+    const continuations = [];
+    for (const continuation of found.slice(0, limit)) {
+      continuations.push({
+        continuation_id: continuation.id,
+        session_id: continuation.sessionId,
+        status: continuation.status,
+        created_at: continuation.createdAt,
+        updated_at: continuation.updatedAt,
+        message: continuation.request.message,
+        final_message: continuation.response?.finalMessage,
+        error: continuation.error && { code: continuation.error.code, message: continuation.error.message },
+        usage: continuation.usage,
+        ...(args.include_steps ? { steps: await this.continuationRunner.getStepLog(continuation) } : {}),
+      });
+    }
+
+    return { offset, has_more: found.length > limit, continuations };
+  }
+
+  /**
+   * MCP Tool: ha_agent.get_continuation
+   * Full record of one continuation, with its step log unless include_steps is false
+   */
+  async getContinuation(
+    args: {
+      session_id: string;
+      continuation_id: string;
+      include_steps?: boolean;
+    },
+    principal?: Principal
+  ): Promise<{ continuation: unknown }> {
+    this.assertSessionAccess(args.session_id, principal);
+
+    const continuation = await this.continuationRunner.getContinuation(args.session_id, args.continuation_id);
+    if (!continuation) {
+      throw new Error(`Continuation ${args.continuation_id} not found`);
+    }
+
+    return {
+      continuation: {
+        continuation_id: continuation.id,
+        session_id: continuation.sessionId,
+        status: continuation.status,
+        created_at: continuation.createdAt,
+        updated_at: continuation.updatedAt,
+        request: {
+          message: continuation.request.message,
+          allow_tools: continuation.request.allowTools,
+          max_steps: continuation.request.maxSteps,
+          time_budget_ms: continuation.request.timeBudgetMs,
+          model: continuation.request.model,
+        },
+        response: continuation.response,
+        artifacts: continuation.artifacts,
+        error: continuation.error,
+        pending_action: continuation.pendingAction,
+        usage: continuation.usage,
+        ...(args.include_steps !== false ? { steps: await this.continuationRunner.getStepLog(continuation) } : {}),
+      },
+    };
+  }
+
+  /**
+   * MCP Tool: ha_agent.get_steps
+   * A continuation's step log filtered by type and time, with tool call durations,
+   * or the whole continuation as an OpenTelemetry (OTLP/JSON) trace
+   */
+  async getSteps(
+    args: {
+      session_id: string;
+      continuation_id: string;
+      types?: string[];
+      since?: number | string;
+      until?: number | string;
+      format?: 'steps' | 'otlp';
+    },
+    principal?: Principal
+  ): Promise<{ continuation_id: string; status: string; total: number; steps: StepView[] } | OtlpTrace> {
+    this.assertSessionAccess(args.session_id, principal);
+    const types = parseStepTypes(args.types);
+    const since = parseTime(args.since, 'since');
+    const until = parseTime(args.until, 'until');
+
+    const continuation = await this.continuationRunner.getContinuation(args.session_id, args.continuation_id);
+    if (!continuation) {
+      throw new AgentError('CONTINUATION_NOT_FOUND', `Continuation ${args.continuation_id} not found`);
+    }
+
+    const entries = await this.continuationRunner.getStepLog(continuation);
+    if (args.format === 'otlp') {
+      return toOtlpTrace(continuation, entries);
+    }
+
+    return {
+      continuation_id: continuation.id,
+      status: continuation.status,
+      total: entries.length,
+      steps: queryStepLog(entries, { types, since, until }),
+    };
+  }
+
   /**
    * MCP Tool: ha_agent.get_session
    * Get session state
    */
-  async getSession(args: { session_id: string }): Promise<{ session: unknown }> {
+  async getSession(args: { session_id: string }, principal?: Principal): Promise<{ session: unknown }> {
     const session = this.sessionManager.getSession(args.session_id);
     if (!session) {
       throw new Error(`Session ${args.session_id} not found`);
     }
+    this.assertSessionAccess(session.id, principal);
 
     // Return a summary (not full session with all internals)
     return {
@@ -180,27 +887,153 @@ export class AgentTools {
     };
   }
 
+  /**
+   * MCP Tool: ha_agent.pin
+   * Pin context the agent should always consider (e.g., "the garage door sensor is flaky")
+   */
+  async pin(
+    args: { session_id: string; content: string; reason?: string },
+    principal?: Principal
+  ): Promise<{ pin_id: string }> {
+    this.assertSessionAccess(args.session_id, principal);
+    if (!args.content?.trim()) {
+      throw new Error('content is required');
+    }
+
+    const pin = await this.sessionManager.addPin(args.session_id, args.content.trim(), args.reason || 'user');
+    return { pin_id: pin.id };
+  }
+
+  /**
+   * MCP Tool: ha_agent.unpin
+   * Remove pinned context
+   */
+  async unpin(args: { session_id: string; pin_id: string }, principal?: Principal): Promise<{ status: string }> {
+    this.assertSessionAccess(args.session_id, principal);
+    const removed = await this.sessionManager.removePin(args.session_id, args.pin_id);
+    return { status: removed ? 'removed' : 'not_found' };
+  }
+
+  /**
+   * MCP Tool: ha_agent.add_fact
+   * Record a durable fact about the home
+   */
+  async addFact(
+    args: {
+      session_id: string;
+      fact: string;
+      confidence?: number;
+      relevance?: string[];
+    },
+    principal?: Principal
+  ): Promise<{ fact_id: string }> {
+    this.assertSessionAccess(args.session_id, principal);
+    if (!args.fact?.trim()) {
+      throw new Error('fact is required');
+    }
+
+    const fact = await this.sessionManager.addFact(args.session_id, {
+      fact: args.fact.trim(),
+      confidence: args.confidence,
+      relevance: args.relevance,
+    });
+    return { fact_id: fact.id };
+  }
+
+  /**
+   * MCP Tool: ha_agent.forget_fact
+   * Remove a fact (user-added or extracted from the conversation)
+   */
+  async forgetFact(args: { session_id: string; fact_id: string }, principal?: Principal): Promise<{ status: string }> {
+    this.assertSessionAccess(args.session_id, principal);
+    const removed = await this.sessionManager.removeFact(args.session_id, args.fact_id);
+    return { status: removed ? 'removed' : 'not_found' };
+  }
+
+  /**
+   * MCP Tool: ha_agent.list_memory
+   * Show what the agent remembers in a session
+   */
+  async listMemory(
+    args: { session_id: string },
+    principal?: Principal
+  ): Promise<{
+    rolling_summary: string;
+    facts: unknown[];
+    pins: unknown[];
+  }> {
+    const session = this.sessionManager.getSession(args.session_id);
+    if (!session) {
+      throw new Error(`Session ${args.session_id} not found`);
+    }
+    this.assertSessionAccess(session.id, principal);
+
+    return {
+      rolling_summary: session.memory.rollingSummary,
+      facts: session.memory.facts,
+      pins: session.memory.pins,
+    };
+  }
+
   /**
    * MCP Tool: ha_agent.end_session
    * End a session
    */
-  async endSession(args: {
-    session_id: string;
-    reason?: string;
-  }): Promise<{ status: string }> {
+  async endSession(
+    args: {
+      session_id: string;
+      reason?: string;
+    },
+    principal?: Principal
+  ): Promise<{ status: string }> {
+    this.assertSessionAccess(args.session_id, principal);
     await this.sessionManager.endSession(args.session_id, args.reason);
     return { status: 'ended' };
   }
 
+  /**
+   * Check that a caller may use an agent session: the principal that started it, or admins
+   * Without a principal (auth disabled or stdio) every session is accessible.
+   */
+  canAccessSession(sessionId: string, principal?: Principal): boolean {
+    if (!principal || principal.isAdmin) {
+      return true;
+    }
+
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      return false; // Session archived or unknown: admins only
+    }
+    return !session.ownerId || session.ownerId === principal.id;
+  }
+
+  /**
+   * Throw FORBIDDEN unless the caller may use the session (unknown sessions are reported as not found)
+   */
+  private assertSessionAccess(sessionId: string, principal?: Principal): void {
+    if (this.canAccessSession(sessionId, principal)) {
+      return;
+    }
+    if (!this.sessionManager.getSession(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    throw new AgentError('FORBIDDEN', `Session ${sessionId} belongs to another principal`);
+  }
+
   /**
    * MCP Tool: ha_agent.list_sessions
-   * List active sessions (for debugging)
+   * List active sessions (for debugging); non-admins only see their own
    */
-  async listSessions(args?: {
-    status?: 'active' | 'expired';
-    limit?: number;
-  }): Promise<{ sessions: unknown[] }> {
-    const sessions = this.sessionManager.listSessions(args?.status);
+  async listSessions(
+    args?: {
+      status?: 'active' | 'expired';
+      limit?: number;
+    },
+    principal?: Principal
+  ): Promise<{ sessions: unknown[] }> {
+    const sessions = this.sessionManager
+      .listSessions(args?.status)
+      .filter((s) => this.canAccessSession(s.id, principal));
     const limit = args?.limit || 10;
 
     return {
@@ -215,19 +1048,27 @@ export class AgentTools {
 
   /**
    * MCP Tool: ha_agent.ask (one-shot)
-   * Simplified one-shot interface (creates temp session)
-   */
-  async ask(args: {
-    message: string;
-    model?: ModelConfig;
-    budgets?: Budgets;
-    allow_tools?: boolean;
-  }): Promise<{
+   * Simplified one-shot interface (creates temp session, owned by the caller)
+   */
+  async ask(
+    args: {
+      message: string;
+      model?: ModelConfig;
+      budgets?: Partial<Budgets>;
+      allow_tools?: boolean;
+    },
+    principal?: Principal
+  ): Promise<{
     response: unknown;
     artifacts?: unknown[];
   }> {
+    if (args.model) {
+      this.continuationRunner.validateModel(args.model);
+    }
+
     // Create temporary session
     const session = await this.sessionManager.createSession({
+      ownerId: principal?.id,
       model: args.model,
       budgets: args.budgets,
     });
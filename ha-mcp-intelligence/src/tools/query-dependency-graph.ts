@@ -0,0 +1,524 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { BackgroundIndexer, DependencyEdge } from '../intelligence/background-indexer.js';
+import type { DependencyEdgeType } from '../intelligence/config-dependencies.js';
+import type { ArtifactStore } from '../agent/artifact-store.js';
+import { Logger } from '../utils/logger.js';
+import {
+  ValidationError,
+  validateEntityId,
+  validateEnum,
+  validateInteger,
+} from '../utils/validation.js';
+
+const OPERATIONS = ['neighborhood', 'path', 'cycles'] as const;
+const DIRECTIONS = ['upstream', 'downstream', 'both'] as const;
+const RENDERS = ['none', 'mermaid', 'dot', 'both'] as const;
+const EDGE_TYPES: readonly DependencyEdgeType[] = ['template', 'automation', 'script'];
+
+const MAX_CYCLES = 50;
+
+export interface QueryDependencyGraphArgs {
+  operation?: (typeof OPERATIONS)[number];
+  entity_id?: string;
+  target_entity_id?: string;
+  direction?: (typeof DIRECTIONS)[number];
+  depth?: number;
+  edge_types?: DependencyEdgeType[];
+  max_nodes?: number;
+  render?: (typeof RENDERS)[number];
+}
+
+export interface GraphNodeResult {
+  entity_id: string;
+  domain: string;
+  state?: string;
+  unavailable: boolean;
+  distance: number; // Hops from entity_id (0 for the entity itself)
+  direction: 'self' | 'upstream' | 'downstream' | 'both';
+}
+
+export interface QueryDependencyGraphResult {
+  operation: string;
+  entity_id?: string;
+  target_entity_id?: string;
+  direction?: string;
+  depth?: number;
+  edge_types: DependencyEdgeType[];
+  nodes: GraphNodeResult[];
+  edges: DependencyEdge[];
+  path?: string[] | null; // path operation: entity IDs from entity_id to target_entity_id
+  cycles?: Array<{ entities: string[]; example: string[] }>;
+  truncated: boolean;
+  renderings?: Array<{ format: 'mermaid' | 'dot'; artifact_id: string; size_bytes: number }>;
+}
+
+/**
+ * Edges are stored dependent -> dependency, so "upstream" follows edges forward
+ * (what an entity depends on) and "downstream" follows them backwards (what depends on it).
+ */
+export class QueryDependencyGraphTool {
+  private logger = new Logger('QueryDependencyGraphTool');
+  private indexer: BackgroundIndexer;
+  private artifacts?: ArtifactStore;
+
+  constructor(indexer: BackgroundIndexer, artifacts?: ArtifactStore) {
+    this.indexer = indexer;
+    this.artifacts = artifacts;
+  }
+
+  getToolDefinition(): Tool {
+    return {
+      name: 'query_dependency_graph',
+      description: 'Query the entity dependency graph: upstream/downstream neighborhoods to a depth, shortest path between two entities, or dependency cycles. Edges are typed (template, automation, script) and record where the reference was found (trigger, condition, target, ...). Optionally renders Mermaid/DOT diagrams as artifacts.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operation: {
+            type: 'string',
+            enum: [...OPERATIONS],
+            description: 'neighborhood (default), path (requires target_entity_id) or cycles',
+            default: 'neighborhood',
+          },
+          entity_id: {
+            type: 'string',
+            description: 'Entity to start from (required except for cycles, where it limits results to cycles through this entity)',
+          },
+          target_entity_id: {
+            type: 'string',
+            description: 'Path target entity',
+          },
+          direction: {
+            type: 'string',
+            enum: [...DIRECTIONS],
+            description: 'upstream = what the entity depends on, downstream = what depends on it (default: both)',
+            default: 'both',
+          },
+          depth: {
+            type: 'number',
+            description: 'Neighborhood depth in hops (default: 2, max: 10)',
+            default: 2,
+          },
+          edge_types: {
+            type: 'array',
+            items: { type: 'string', enum: [...EDGE_TYPES] },
+            description: 'Only follow these edge types (default: all)',
+          },
+          max_nodes: {
+            type: 'number',
+            description: 'Maximum nodes to return (default: 200, max: 1000)',
+            default: 200,
+          },
+          render: {
+            type: 'string',
+            enum: [...RENDERS],
+            description: 'Store Mermaid and/or DOT renderings of the result as artifacts (default: none)',
+            default: 'none',
+          },
+        },
+      },
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<QueryDependencyGraphResult> {
+    const typedArgs = args as Partial<QueryDependencyGraphArgs>;
+
+    const operation = validateEnum(typedArgs.operation, 'operation', OPERATIONS, 'neighborhood');
+    const direction = validateEnum(typedArgs.direction, 'direction', DIRECTIONS, 'both');
+    const render = validateEnum(typedArgs.render, 'render', RENDERS, 'none');
+    const depth = validateInteger(typedArgs.depth, 'depth', 2, 1, 10);
+    const maxNodes = validateInteger(typedArgs.max_nodes, 'max_nodes', 200, 1, 1000);
+    const edgeTypes = this.validateEdgeTypes(typedArgs.edge_types);
+
+    const entityId = typedArgs.entity_id !== undefined ? validateEntityId(typedArgs.entity_id) : undefined;
+    if (!entityId && operation !== 'cycles') {
+      throw new ValidationError(`entity_id parameter is required for ${operation}`);
+    }
+    if (entityId && !this.indexer.getEntityNode(entityId)) {
+      throw new Error(`Entity not found in dependency graph: ${entityId}`);
+    }
+
+    if (render !== 'none' && !this.artifacts) {
+      throw new Error('Rendering requires an artifact store');
+    }
+
+    this.logger.info(`Querying dependency graph: ${operation}`, { entityId, direction, depth });
+
+    const edges = this.indexer.getDependencyEdges().filter((e) => edgeTypes.includes(e.type));
+    const adjacency = buildAdjacency(edges);
+
+    let result: QueryDependencyGraphResult;
+    switch (operation) {
+      case 'neighborhood':
+        result = this.neighborhood(entityId!, direction, depth, maxNodes, edges, adjacency);
+        break;
+
+      case 'path': {
+        if (typedArgs.target_entity_id === undefined) {
+          throw new ValidationError('target_entity_id parameter is required for path');
+        }
+        const targetId = validateEntityId(typedArgs.target_entity_id);
+        if (!this.indexer.getEntityNode(targetId)) {
+          throw new Error(`Entity not found in dependency graph: ${targetId}`);
+        }
+        result = this.shortestPath(entityId!, targetId, direction, edges, adjacency);
+        break;
+      }
+
+      case 'cycles':
+        result = this.cycles(entityId, maxNodes, edges, adjacency);
+        break;
+    }
+
+    result.edge_types = edgeTypes;
+
+    if (render !== 'none' && result.nodes.length > 0) {
+      result.renderings = await this.storeRenderings(result, render);
+    }
+
+    return result;
+  }
+
+  private validateEdgeTypes(value: unknown): DependencyEdgeType[] {
+    if (value === undefined || value === null) {
+      return [...EDGE_TYPES];
+    }
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new ValidationError('edge_types must be a non-empty array');
+    }
+    return value.map((type) => validateEnum(type, 'edge type', EDGE_TYPES, 'template'));
+  }
+
+  private neighborhood(
+    entityId: string,
+    direction: (typeof DIRECTIONS)[number],
+    depth: number,
+    maxNodes: number,
+    edges: DependencyEdge[],
+    adjacency: Adjacency
+  ): QueryDependencyGraphResult {
+    const found = new Map<string, GraphNodeResult>();
+    found.set(entityId, this.describeNode(entityId, 0, 'self'));
+    let truncated = false;
+
+    const expand = (neighbors: Map<string, Set<string>>, label: 'upstream' | 'downstream') => {
+      let frontier = [entityId];
+      const visited = new Set([entityId]);
+
+      for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+        const next: string[] = [];
+        for (const id of frontier) {
+          for (const neighbor of neighbors.get(id) || []) {
+            if (visited.has(neighbor)) continue;
+            visited.add(neighbor);
+            next.push(neighbor);
+
+            const existing = found.get(neighbor);
+            if (existing) {
+              if (existing.direction !== label && existing.direction !== 'self') {
+                existing.direction = 'both';
+                existing.distance = Math.min(existing.distance, distance);
+              }
+            } else if (found.size >= maxNodes) {
+              truncated = true;
+            } else {
+              found.set(neighbor, this.describeNode(neighbor, distance, label));
+            }
+          }
+        }
+        frontier = next;
+      }
+    };
+
+    if (direction !== 'downstream') expand(adjacency.out, 'upstream');
+    if (direction !== 'upstream') expand(adjacency.in, 'downstream');
+
+    return {
+      operation: 'neighborhood',
+      entity_id: entityId,
+      direction,
+      depth,
+      edge_types: [],
+      nodes: Array.from(found.values()),
+      edges: edges.filter((e) => found.has(e.from) && found.has(e.to)),
+      truncated,
+    };
+  }
+
+  private shortestPath(
+    sourceId: string,
+    targetId: string,
+    direction: (typeof DIRECTIONS)[number],
+    edges: DependencyEdge[],
+    adjacency: Adjacency
+  ): QueryDependencyGraphResult {
+    const neighbors = (id: string): Iterable<string> => {
+      if (direction === 'upstream') return adjacency.out.get(id) || [];
+      if (direction === 'downstream') return adjacency.in.get(id) || [];
+      return [...(adjacency.out.get(id) || []), ...(adjacency.in.get(id) || [])];
+    };
+
+    // Breadth-first search; previous[] reconstructs the path
+    const previous = new Map<string, string | null>([[sourceId, null]]);
+    const queue = [sourceId];
+    while (queue.length > 0 && !previous.has(targetId)) {
+      const id = queue.shift()!;
+      for (const neighbor of neighbors(id)) {
+        if (!previous.has(neighbor)) {
+          previous.set(neighbor, id);
+          queue.push(neighbor);
+        }
+      }
+    }
+
+    let path: string[] | null = null;
+    if (previous.has(targetId)) {
+      path = [];
+      for (let id: string | null = targetId; id !== null; id = previous.get(id) ?? null) {
+        path.unshift(id);
+      }
+    }
+
+    const hops = new Set<string>();
+    path?.slice(1).forEach((id, i) => {
+      hops.add(`${path![i]}|${id}`);
+      hops.add(`${id}|${path![i]}`);
+    });
+
+    return {
+      operation: 'path',
+      entity_id: sourceId,
+      target_entity_id: targetId,
+      direction,
+      edge_types: [],
+      nodes: (path || []).map((id, i) => this.describeNode(id, i, i === 0 ? 'self' : pathDirection(direction))),
+      edges: edges.filter((e) => hops.has(`${e.from}|${e.to}`)),
+      path,
+      truncated: false,
+    };
+  }
+
+  private cycles(
+    entityId: string | undefined,
+    maxNodes: number,
+    edges: DependencyEdge[],
+    adjacency: Adjacency
+  ): QueryDependencyGraphResult {
+    let components = stronglyConnectedComponents(adjacency.out).filter((c) => c.length > 1);
+    if (entityId) {
+      components = components.filter((c) => c.includes(entityId));
+    }
+
+    let truncated = components.length > MAX_CYCLES;
+    const cycles = components.slice(0, MAX_CYCLES).map((entities) => ({
+      entities,
+      example: exampleCycle(entities, adjacency.out),
+    }));
+
+    const members = new Set<string>();
+    for (const cycle of cycles) {
+      for (const id of cycle.entities) {
+        if (members.has(id)) continue;
+        if (members.size >= maxNodes) {
+          truncated = true;
+          break;
+        }
+        members.add(id);
+      }
+    }
+
+    return {
+      operation: 'cycles',
+      entity_id: entityId,
+      edge_types: [],
+      nodes: Array.from(members).map((id) => this.describeNode(id, id === entityId ? 0 : 1, id === entityId ? 'self' : 'both')),
+      edges: edges.filter((e) => members.has(e.from) && members.has(e.to)),
+      cycles,
+      truncated,
+    };
+  }
+
+  private describeNode(entityId: string, distance: number, direction: GraphNodeResult['direction']): GraphNodeResult {
+    const node = this.indexer.getEntityNode(entityId);
+    return {
+      entity_id: entityId,
+      domain: node?.domain ?? entityId.split('.', 1)[0],
+      state: node?.state,
+      unavailable: node?.unavailable ?? false,
+      distance,
+      direction,
+    };
+  }
+
+  private async storeRenderings(
+    result: QueryDependencyGraphResult,
+    render: (typeof RENDERS)[number]
+  ): Promise<NonNullable<QueryDependencyGraphResult['renderings']>> {
+    const formats: Array<'mermaid' | 'dot'> = render === 'both' ? ['mermaid', 'dot'] : [render as 'mermaid' | 'dot'];
+    const renderings: NonNullable<QueryDependencyGraphResult['renderings']> = [];
+
+    for (const format of formats) {
+      const content = format === 'mermaid' ? toMermaid(result) : toDot(result);
+      const ref = await this.artifacts!.write(
+        'plot',
+        content,
+        {
+          format,
+          tool: 'query_dependency_graph',
+          operation: result.operation,
+          entity_id: result.entity_id,
+        },
+        { mimeType: format === 'dot' ? 'text/vnd.graphviz' : 'text/vnd.mermaid', tags: ['dependency_graph', format] }
+      );
+      renderings.push({ format, artifact_id: ref.id, size_bytes: ref.sizeBytes });
+    }
+
+    return renderings;
+  }
+}
+
+interface Adjacency {
+  out: Map<string, Set<string>>; // dependent -> dependencies
+  in: Map<string, Set<string>>;  // dependency -> dependents
+}
+
+function buildAdjacency(edges: DependencyEdge[]): Adjacency {
+  const adjacency: Adjacency = { out: new Map(), in: new Map() };
+  for (const edge of edges) {
+    if (!adjacency.out.has(edge.from)) adjacency.out.set(edge.from, new Set());
+    if (!adjacency.in.has(edge.to)) adjacency.in.set(edge.to, new Set());
+    adjacency.out.get(edge.from)!.add(edge.to);
+    adjacency.in.get(edge.to)!.add(edge.from);
+  }
+  return adjacency;
+}
+
+function pathDirection(direction: (typeof DIRECTIONS)[number]): GraphNodeResult['direction'] {
+  return direction === 'both' ? 'both' : direction;
+}
+
+/**
+ * Tarjan's algorithm, iterative so large graphs cannot overflow the stack
+ */
+function stronglyConnectedComponents(out: Map<string, Set<string>>): string[][] {
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of out.keys()) {
+    if (index.has(root)) continue;
+
+    const work: Array<{ id: string; neighbors: Iterator<string> }> = [];
+    const visit = (id: string) => {
+      index.set(id, counter);
+      lowlink.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+      work.push({ id, neighbors: (out.get(id) || new Set<string>()).values() });
+    };
+    visit(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const next = frame.neighbors.next();
+
+      if (!next.done) {
+        const neighbor = next.value;
+        if (!index.has(neighbor)) {
+          visit(neighbor);
+        } else if (onStack.has(neighbor)) {
+          lowlink.set(frame.id, Math.min(lowlink.get(frame.id)!, index.get(neighbor)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].id;
+        lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(frame.id)!));
+      }
+
+      if (lowlink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * One concrete cycle through the first member of a strongly connected component
+ */
+function exampleCycle(component: string[], out: Map<string, Set<string>>): string[] {
+  const members = new Set(component);
+  const start = component[0];
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const neighbor of out.get(id) || []) {
+      if (!members.has(neighbor)) continue;
+      if (neighbor === start) {
+        const inner: string[] = [];
+        for (let node = id; node !== start; node = previous.get(node)!) {
+          inner.unshift(node);
+        }
+        return [start, ...inner, start];
+      }
+      if (!previous.has(neighbor)) {
+        previous.set(neighbor, id);
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  return component;
+}
+
+function toMermaid(result: QueryDependencyGraphResult): string {
+  const ids = new Map(result.nodes.map((n, i) => [n.entity_id, `n${i}`]));
+  const lines = ['graph LR'];
+
+  for (const node of result.nodes) {
+    lines.push(`  ${ids.get(node.entity_id)}["${node.entity_id}"]`);
+  }
+  for (const edge of result.edges) {
+    lines.push(`  ${ids.get(edge.from)} -->|${edge.type}: ${edge.via}| ${ids.get(edge.to)}`);
+  }
+
+  const unavailable = result.nodes.filter((n) => n.unavailable).map((n) => ids.get(n.entity_id));
+  if (unavailable.length > 0) {
+    lines.push('  classDef unavailable fill:#fdd,stroke:#c00');
+    lines.push(`  class ${unavailable.join(',')} unavailable`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function toDot(result: QueryDependencyGraphResult): string {
+  const lines = ['digraph dependencies {', '  rankdir=LR;'];
+
+  for (const node of result.nodes) {
+    const style = node.unavailable ? ', color=red' : node.direction === 'self' ? ', style=bold' : '';
+    const state = (node.state ?? '').replace(/["\\]/g, '\\$&');
+    lines.push(`  "${node.entity_id}" [label="${node.entity_id}\\n${state}"${style}];`);
+  }
+  for (const edge of result.edges) {
+    lines.push(`  "${edge.from}" -> "${edge.to}" [label="${edge.type}: ${edge.via}"];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
@@ -7,6 +7,13 @@ const LOG_LEVELS: Record<LogLevel, number> = {
   error: 3,
 };
 
+/**
+ * In stdio transport mode stdout carries JSON-RPC, so debug/info go to stderr too
+ */
+function stdoutReserved(): boolean {
+  return process.env.MCP_TRANSPORT === 'stdio';
+}
+
 export class Logger {
   private context: string;
   private minLevel: LogLevel;
@@ -33,13 +40,15 @@ export class Logger {
 
   debug(message: string, data?: unknown): void {
     if (this.shouldLog('debug')) {
-      console.debug(this.format('debug', message, data));
+      const line = this.format('debug', message, data);
+      stdoutReserved() ? console.error(line) : console.debug(line);
     }
   }
 
   info(message: string, data?: unknown): void {
     if (this.shouldLog('info')) {
-      console.info(this.format('info', message, data));
+      const line = this.format('info', message, data);
+      stdoutReserved() ? console.error(line) : console.info(line);
     }
   }
 
@@ -100,3 +100,49 @@ export function validateBoolean(value: unknown, defaultValue: boolean): boolean
 
   throw new ValidationError(`Invalid boolean value: "${value}"`);
 }
+
+/**
+ * Validate integer parameter within an inclusive range
+ */
+export function validateInteger(
+  value: unknown,
+  name: string,
+  defaultValue: number,
+  min: number,
+  max: number
+): number {
+  if (value === undefined || value === null) {
+    return defaultValue;
+  }
+
+  const num = typeof value === 'string' ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isInteger(num)) {
+    throw new ValidationError(`${name} must be an integer`);
+  }
+
+  if (num < min || num > max) {
+    throw new ValidationError(`${name} must be between ${min} and ${max}`);
+  }
+
+  return num;
+}
+
+/**
+ * Validate that a string parameter is one of the allowed values
+ */
+export function validateEnum<T extends string>(
+  value: unknown,
+  name: string,
+  allowed: readonly T[],
+  defaultValue: T
+): T {
+  if (value === undefined || value === null) {
+    return defaultValue;
+  }
+
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new ValidationError(`Invalid ${name}: "${value}". Must be one of: ${allowed.join(', ')}`);
+  }
+
+  return value as T;
+}